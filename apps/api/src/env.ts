@@ -15,7 +15,29 @@ export const env = createEnv({
 		APP_PROCESSING_TIMEOUT: z.number().default(15 * 1000), // 15s
 		APP_MAX_ZIP_SIZE: z.number().default(50 * 1024 * 1024), // 50MB
 		APP_MAX_PAGE_COUNT: z.number().default(1000),
+
+		// Worker threads for page extraction (0 = extract on the main thread)
+		APP_EXTRACTION_WORKERS: z.coerce.number().int().min(0).default(0),
+
+		// OCR fallback for scanned pages (cannot be combined with worker threads)
+		APP_OCR_ENABLED: z
+			.enum(["true", "false"])
+			.default("false")
+			.transform((value) => value === "true"),
 	},
 
+	// Worker threads only run the built-in form handlers without OCR (see PageExtractor)
+	createFinalSchema: (shape) =>
+		z
+			.object(shape)
+			.refine(
+				(env) => !(env.APP_EXTRACTION_WORKERS > 0 && env.APP_OCR_ENABLED),
+				{
+					message:
+						"APP_EXTRACTION_WORKERS cannot be combined with APP_OCR_ENABLED=true. Set APP_EXTRACTION_WORKERS=0 to use the OCR fallback.",
+					path: ["APP_EXTRACTION_WORKERS"],
+				},
+			),
+
 	runtimeEnv: process.env,
 });
@@ -64,31 +64,6 @@ export function validatePdfBuffer(buffer: Buffer, contentType?: string): void {
 	}
 }
 
-/**
- * Sanitize filename for safe inclusion in ZIP archives
- * Prevents path traversal and other injection attacks
- *
- * @param filename - Original filename
- * @returns Sanitized filename safe for ZIP inclusion
- */
-export function sanitizeFilename(filename: string): string {
-	return (
-		filename
-			// Remove path traversal attempts
-			.replace(/\.\./g, "")
-			// Remove directory separators
-			.replace(/[/\\]/g, "_")
-			// Remove null bytes
-			.replace(/\0/g, "")
-			// Remove leading/trailing whitespace and dots
-			.trim()
-			.replace(/^\.+/, "")
-			.replace(/\.+$/, "")
-			// Limit length
-			.substring(0, 255) || "file"
-	); // Fallback if empty after sanitization
-}
-
 /**
  * Validate page count to prevent PDF bomb attacks
  * @param pageCount - Number of pages in extracted PDF
@@ -1,8 +1,11 @@
 import {
-	PageExtractor,
-	PageGrouper,
-	PdfGenerator,
-	SepaTransfersGenerator,
+	DatevBookingBatchGenerator,
+	DatevLohnProcessor,
+	IncorrectPasswordError,
+	PasswordRequiredError,
+	Redactor,
+	TesseractOcrEngine,
+	ValidationError,
 } from "@internal/datev-lohn-extract-core";
 import archiver from "archiver";
 import { Hono } from "hono";
@@ -10,7 +13,6 @@ import { describeRoute, resolver } from "hono-openapi";
 
 import { env } from "../env.js";
 import {
-	sanitizeFilename,
 	validateContentLength,
 	validatePageCount,
 	validatePdfBuffer,
@@ -23,25 +25,200 @@ import {
 } from "../schemas/common.js";
 import {
 	FileValidationError,
+	InvalidParameterError,
+	PdfPasswordError,
 	ProcessingError,
 	ProcessingTimeoutError,
 	errorToResponse,
 } from "../utils/errors.js";
 
+import type {
+	DatevBookingBatchOptions,
+	PayrollSummaryFormat,
+	PdfEncryptionOptions,
+} from "@internal/datev-lohn-extract-core";
+
 const extractRoutes = new Hono();
 
-// Create extraction pipeline instances
-const pageExtractor = new PageExtractor();
-const pageGrouper = new PageGrouper();
-const pdfGenerator = new PdfGenerator();
-const sepaTransfersGenerator = new SepaTransfersGenerator();
+/**
+ * Supported payroll summary formats
+ */
+const SUMMARY_FORMATS: PayrollSummaryFormat[] = ["json", "csv", "xlsx"];
+
+// Create the processing pipeline
+// The OCR engine keeps its tesseract worker alive between requests
+const processor = new DatevLohnProcessor({
+	workers: env.APP_EXTRACTION_WORKERS,
+	ocr: env.APP_OCR_ENABLED ? { engine: new TesseractOcrEngine() } : undefined,
+});
+
+/**
+ * Parse the encryption options of the personnel PDFs from form fields
+ * Passwords are only used for encryption and never added to the bundle.
+ *
+ * @throws {InvalidParameterError} If the fields are incomplete or invalid
+ */
+function parseEncryptionOptions(
+	formString: (name: string) => string | undefined,
+): PdfEncryptionOptions | undefined {
+	const ownerPassword = formString("ownerPassword");
+	const userPasswords = formString("userPasswords");
+	const userPasswordTemplate = formString("userPasswordTemplate");
+	const algorithm = formString("encryptionAlgorithm") ?? "AES-256";
+
+	if (!ownerPassword && !userPasswords && !userPasswordTemplate) {
+		return undefined;
+	}
+	if (!ownerPassword) {
+		throw new InvalidParameterError(
+			"ownerPassword is required for encrypted PDFs",
+		);
+	}
+	if (algorithm !== "AES-128" && algorithm !== "AES-256") {
+		throw new InvalidParameterError(
+			`Invalid encryptionAlgorithm: ${algorithm}. Expected "AES-128" or "AES-256"`,
+		);
+	}
+
+	if (userPasswords && userPasswordTemplate) {
+		throw new InvalidParameterError(
+			"Either userPasswords or userPasswordTemplate can be given, not both",
+		);
+	}
+	if (userPasswordTemplate) {
+		return {
+			userPassword: { type: "template", template: userPasswordTemplate },
+			ownerPassword,
+			algorithm,
+		};
+	}
+	if (!userPasswords) {
+		throw new InvalidParameterError(
+			"userPasswords or userPasswordTemplate is required for encrypted PDFs",
+		);
+	}
+
+	let passwords: unknown;
+	try {
+		passwords = JSON.parse(userPasswords);
+	} catch {
+		passwords = null;
+	}
+	if (
+		typeof passwords !== "object" ||
+		passwords === null ||
+		Array.isArray(passwords) ||
+		Object.values(passwords).some(
+			(password) => typeof password !== "string" || password === "",
+		)
+	) {
+		throw new InvalidParameterError(
+			"userPasswords must be a JSON object mapping personnel numbers to passwords",
+		);
+	}
+
+	return {
+		userPassword: {
+			type: "map",
+			passwords: passwords as Record<string, string>,
+		},
+		ownerPassword,
+		algorithm,
+	};
+}
+
+/**
+ * Parse the DATEV Buchungsstapel options from form fields
+ * Missing or invalid header fields are reported by the generator.
+ *
+ * @throws {InvalidParameterError} If the account mapping is invalid
+ */
+function parseDatevOptions(
+	formString: (name: string) => string | undefined,
+): DatevBookingBatchOptions | undefined {
+	const consultantNumber = formString("datevConsultantNumber");
+	const clientNumber = formString("datevClientNumber");
+	const fiscalYearStart = formString("datevFiscalYearStart");
+	const accounts = formString("datevAccounts");
+
+	if (!consultantNumber && !clientNumber && !fiscalYearStart && !accounts) {
+		return undefined;
+	}
+
+	let accountConfig = {};
+	if (accounts) {
+		try {
+			accountConfig = DatevBookingBatchGenerator.parseAccountConfig(
+				JSON.parse(accounts),
+			);
+		} catch (error) {
+			throw new InvalidParameterError(
+				`Invalid datevAccounts: ${error instanceof Error ? error.message : "Unknown error"}`,
+			);
+		}
+	}
+
+	return {
+		...accountConfig,
+		consultantNumber: Number(consultantNumber ?? 0),
+		clientNumber: Number(clientNumber ?? 0),
+		fiscalYearStart: fiscalYearStart ?? "",
+	};
+}
+
+/**
+ * Parse the payroll summary formats from the "summaryFormat" form fields
+ * (one format per field, all formats if none is given)
+ *
+ * @throws {InvalidParameterError} If a format is invalid
+ */
+function parseSummaryFormats(values: unknown[]): PayrollSummaryFormat[] {
+	const formats = values.filter(
+		(value): value is string => typeof value === "string" && value !== "",
+	);
+	for (const format of formats) {
+		if (!SUMMARY_FORMATS.includes(format as PayrollSummaryFormat)) {
+			throw new InvalidParameterError(
+				`Invalid summaryFormat: ${format}. Expected "json", "csv" or "xlsx"`,
+			);
+		}
+	}
+	return formats.length > 0
+		? (formats as PayrollSummaryFormat[])
+		: SUMMARY_FORMATS;
+}
+
+/**
+ * Create a redactor from the "redact" form fields (one rule per field)
+ *
+ * @throws {InvalidParameterError} If a rule is invalid
+ */
+function parseRedactor(values: unknown[]): Redactor | undefined {
+	const rules = values.filter(
+		(value): value is string => typeof value === "string" && value !== "",
+	);
+	if (rules.length === 0) {
+		return undefined;
+	}
+
+	try {
+		return new Redactor({
+			rules: rules.map((rule) => Redactor.parseRule(rule)),
+		});
+	} catch (error) {
+		if (error instanceof ValidationError) {
+			throw new InvalidParameterError(error.message);
+		}
+		throw error;
+	}
+}
 
 /**
  * POST /bundle
  * Upload a DATEV PDF and receive a ZIP bundle with:
  * - Individual personnel PDFs
  * - Company-wide PDFs
- * - SEPA transfers CSV
+ * - SEPA transfers CSV or pain.001 XML
  * - Metadata JSON with period information
  */
 extractRoutes.post(
@@ -51,7 +228,7 @@ extractRoutes.post(
 		summary: "Extract and bundle DATEV PDF",
 		description:
 			"Upload a DATEV salary statement PDF and receive a ZIP bundle containing " +
-			"individual personnel PDFs, company-wide PDFs, a SEPA transfers CSV file, " +
+			"individual personnel PDFs, company-wide PDFs, a SEPA transfers file (CSV or pain.001 XML), " +
 			"and metadata about the extraction period. " +
 			"\n\nSecurity features:\n" +
 			"- File size validation (max 50MB)\n" +
@@ -72,6 +249,142 @@ extractRoutes.post(
 								description:
 									"PDF file to process (max 50MB). Must be a valid DATEV salary statement PDF.",
 							},
+							password: {
+								type: "string",
+								format: "password",
+								description:
+									"User password of an encrypted PDF. The generated PDFs are not encrypted.",
+							},
+							groupBy: {
+								type: "string",
+								enum: ["personnel", "period"],
+								default: "personnel",
+								description:
+									"Group employee pages by personnel number, or by personnel number and payroll period (one PDF per employee and month)",
+							},
+							sepaFormat: {
+								type: "string",
+								enum: ["csv", "pain001"],
+								default: "csv",
+								description:
+									"Format of the SEPA transfers file: CSV (sepa-transfers.csv) or ISO 20022 pain.001.001.09 XML (sepa-transfers.xml)",
+							},
+							debtorName: {
+								type: "string",
+								description: "Debtor name (required for pain001)",
+							},
+							debtorIban: {
+								type: "string",
+								description: "Debtor IBAN (required for pain001)",
+							},
+							debtorBic: {
+								type: "string",
+								description: "Debtor BIC (optional for pain001)",
+							},
+							executionDate: {
+								type: "string",
+								format: "date",
+								description:
+									"Requested execution date in YYYY-MM-DD (optional for pain001)",
+							},
+							allowInvalidIbans: {
+								type: "string",
+								enum: ["true", "false"],
+								default: "false",
+								description:
+									"Include transfers with invalid IBANs (failed checksum) in the SEPA file",
+							},
+							summaryFormat: {
+								type: "array",
+								items: { type: "string", enum: ["json", "csv", "xlsx"] },
+								description:
+									"Payroll summary formats, one per field: payroll-summary.json, payroll-summary.csv and/or payroll-summary.xlsx (default: all)",
+							},
+							summaryNumberFormat: {
+								type: "string",
+								enum: ["german", "international"],
+								default: "german",
+								description:
+									'Number format of payroll-summary.csv: "german" (semicolon-separated, 1.234,56) or "international" (comma-separated, 1234.56)',
+							},
+							datevConsultantNumber: {
+								type: "string",
+								description:
+									"DATEV consultant number (Beraternummer, 1001-9999999). Adds EXTF_Buchungsstapel.csv with the payroll bookings to the bundle.",
+							},
+							datevClientNumber: {
+								type: "string",
+								description:
+									"DATEV client number (Mandantennummer, 1-99999, required for the Buchungsstapel)",
+							},
+							datevFiscalYearStart: {
+								type: "string",
+								format: "date",
+								description:
+									"Start of the fiscal year in YYYY-MM-DD (required for the Buchungsstapel)",
+							},
+							datevAccounts: {
+								type: "string",
+								description:
+									'JSON account mapping of the Buchungsstapel, e.g. {"chartOfAccounts": "SKR04", "accounts": {"netPay": "3720"}} (default: SKR03 accounts)',
+							},
+							ownerPassword: {
+								type: "string",
+								format: "password",
+								description:
+									"Owner password of encrypted personnel PDFs. Enables encryption together with userPasswords or userPasswordTemplate.",
+							},
+							userPasswords: {
+								type: "string",
+								description:
+									'JSON object mapping personnel numbers to the user passwords of their PDFs, e.g. {"12345": "secret"}',
+							},
+							userPasswordTemplate: {
+								type: "string",
+								description:
+									"User password template for personnel PDFs (placeholders: {personnelNumber}, {employeeName}, {year}, {month}, {birthDate} as DDMMYYYY)",
+							},
+							encryptionAlgorithm: {
+								type: "string",
+								enum: ["AES-256", "AES-128"],
+								default: "AES-256",
+								description: "Cipher of encrypted personnel PDFs",
+							},
+							redact: {
+								type: "array",
+								items: { type: "string" },
+								description:
+									"Redaction rules, one per field: a field kind (iban, taxId, socialSecurityNumber) or a regular expression (/pattern/flags). Matches are blacked out in the generated PDFs and masked in the metadata.json warnings and provenance and in the payroll summary.",
+							},
+							pdfA: {
+								type: "string",
+								enum: ["true", "false"],
+								default: "false",
+								description:
+									"Generate PDF/A-2b documents for long-term archiving (cannot be combined with encryption)",
+							},
+							author: {
+								type: "string",
+								description:
+									"Author of the generated PDFs, e.g. the company (default: author of the uploaded PDF)",
+							},
+							nameTemplate: {
+								type: "string",
+								description:
+									"Path template of personnel PDFs in the ZIP, e.g. {period:yyyy-MM}/{personnelNumber}_{employeeName|slug}.pdf (default: PERSONNEL[-{period}]-{personnelNumber}[-{correction}].pdf)",
+							},
+							companyNameTemplate: {
+								type: "string",
+								description:
+									"Path template of company PDFs in the ZIP, e.g. {period:yyyy-MM}/company.pdf (default: COMPANY[-{period}].pdf)",
+							},
+							includeProvenance: {
+								type: "string",
+								enum: ["true", "false"],
+								default: "false",
+								description:
+									"Add the origin (pattern, text snippet, offset, position) and confidence of every extracted field to metadata.json",
+							},
 						},
 						required: ["file"],
 					},
@@ -81,15 +394,15 @@ extractRoutes.post(
 		responses: {
 			200: {
 				description:
-					"Successfully processed PDF. Returns ZIP bundle containing personnel PDFs, company PDFs, SEPA CSV, and metadata",
+					"Successfully processed PDF. Returns ZIP bundle containing personnel PDFs, company PDFs, SEPA transfers, payroll summaries, and metadata",
 				content: {
 					"application/zip": {
 						schema: {
 							type: "string",
 							format: "binary",
 							description:
-								"ZIP archive containing split PDFs, SEPA transfers CSV, and metadata. " +
-								"Contents: personnel PDFs (PERSONNEL-YYYY-Month-XXXXX.pdf), company PDFs (COMPANY-YYYY-Month.pdf), sepa-transfers.csv, and metadata.json",
+								"ZIP archive containing split PDFs, SEPA transfers file, payroll summaries, and metadata. " +
+								"Contents: personnel PDFs (PERSONNEL-YYYY-MM-XXXXX.pdf), company PDFs (COMPANY-YYYY-MM.pdf), sepa-transfers.csv or sepa-transfers.xml, payroll-summary.json/.csv/.xlsx, EXTF_Buchungsstapel.csv (if requested), and metadata.json",
 						},
 					},
 				},
@@ -128,7 +441,6 @@ extractRoutes.post(
 			},
 		},
 	}),
-	// eslint-disable-next-line complexity
 	async (c) => {
 		try {
 			// Validate Content-Length header first (before parsing body)
@@ -145,55 +457,120 @@ extractRoutes.post(
 				);
 			}
 
-			// Read file buffer
-			const arrayBuffer = await file.arrayBuffer();
-			const buffer = Buffer.from(arrayBuffer);
-
-			// Validate PDF
-			validatePdfBuffer(buffer, file.type);
+			// Parse grouping mode
+			const groupBy = formData.get("groupBy") ?? "personnel";
+			if (groupBy !== "personnel" && groupBy !== "period") {
+				throw new InvalidParameterError(
+					`Invalid groupBy: ${String(groupBy)}. Expected "personnel" or "period"`,
+				);
+			}
 
-			// Extract with timeout using individual classes
-			const extractionPromise = (async () => {
-				// Step 1: Extract pages from PDF
-				const extractedPages = await pageExtractor.extractPages(buffer);
+			// Parse SEPA output options
+			const sepaFormat = formData.get("sepaFormat") ?? "csv";
+			if (sepaFormat !== "csv" && sepaFormat !== "pain001") {
+				throw new InvalidParameterError(
+					`Invalid sepaFormat: ${String(sepaFormat)}. Expected "csv" or "pain001"`,
+				);
+			}
 
-				// Step 2: Group pages by personnel
-				const groupedPages = pageGrouper.groupByPersonnel(extractedPages);
+			const formString = (name: string): string | undefined => {
+				const value = formData.get(name);
+				return typeof value === "string" && value ? value : undefined;
+			};
 
-				// Step 3: Generate PDFs
-				const personnelPdfs = await Promise.all(
-					groupedPages.personnelGroups.map((group) =>
-						pdfGenerator.generatePersonnelPdf(group, buffer),
-					),
+			// Parse payroll summary options
+			const summaryFormats = parseSummaryFormats(
+				formData.getAll("summaryFormat"),
+			);
+			const summaryNumberFormat = formString("summaryNumberFormat") ?? "german";
+			if (
+				summaryNumberFormat !== "german" &&
+				summaryNumberFormat !== "international"
+			) {
+				throw new InvalidParameterError(
+					`Invalid summaryNumberFormat: ${summaryNumberFormat}. Expected "german" or "international"`,
 				);
+			}
 
-				const companyPdfs = await Promise.all(
-					groupedPages.companyGroups.map((group) =>
-						pdfGenerator.generateCompanyPdf(group, buffer),
-					),
-				);
+			const allowInvalidIbans = formString("allowInvalidIbans") === "true";
+			const includeProvenance = formString("includeProvenance") === "true";
+			const password = formString("password");
 
-				// Step 4: Generate SEPA transfers CSV
-				const sepaTransfersCsv =
-					sepaTransfersGenerator.generateSepaTransfersCsv(
-						groupedPages.personnelGroups,
-					);
+			const datev = parseDatevOptions(formString);
+
+			// Personnel PDFs are encrypted with per-employee passwords if requested
+			const encryption = parseEncryptionOptions(formString);
+			const redactor = parseRedactor(formData.getAll("redact"));
+
+			// Read file buffer
+			const arrayBuffer = await file.arrayBuffer();
+			const buffer = Buffer.from(arrayBuffer);
 
-				return { personnelPdfs, companyPdfs, sepaTransfersCsv };
-			})();
+			// Validate PDF
+			validatePdfBuffer(buffer, file.type);
 
+			// Aborted on timeout, so that pdf.js does not keep working in the background
+			const abortController = new AbortController();
+
+			// Run the pipeline with timeout
+			// Invalid options (e.g. no user password for an employee, invalid naming
+			// templates) are client errors
+			const processingPromise = processor
+				.process(buffer, {
+					signal: abortController.signal,
+					password,
+					groupBy,
+					sepa:
+						sepaFormat === "pain001"
+							? {
+									format: "pain001",
+									debtorName: formString("debtorName") ?? "",
+									debtorIban: formString("debtorIban") ?? "",
+									debtorBic: formString("debtorBic"),
+									requestedExecutionDate: formString("executionDate"),
+									allowInvalidIbans,
+								}
+							: { format: "csv", allowInvalidIbans },
+					summary: {
+						formats: summaryFormats,
+						numberFormat: summaryNumberFormat,
+					},
+					datev,
+					encryption,
+					redactor,
+					pdfA: formString("pdfA") === "true",
+					documentInfo: { author: formString("author") },
+					includeProvenance,
+					naming: {
+						personnel: formString("nameTemplate"),
+						company: formString("companyNameTemplate"),
+					},
+				})
+				.catch((error: unknown) => {
+					throw error instanceof ValidationError
+						? new InvalidParameterError(error.message)
+						: error;
+				});
+
+			let timeout: NodeJS.Timeout | undefined;
 			const timeoutPromise = new Promise<never>((_, reject) => {
-				setTimeout(
-					() => reject(new ProcessingTimeoutError(env.APP_PROCESSING_TIMEOUT)),
-					env.APP_PROCESSING_TIMEOUT,
-				);
+				timeout = setTimeout(() => {
+					abortController.abort();
+					reject(new ProcessingTimeoutError(env.APP_PROCESSING_TIMEOUT));
+				}, env.APP_PROCESSING_TIMEOUT);
 			});
 
-			const result = await Promise.race([extractionPromise, timeoutPromise]);
-
-			// Validate page count (sum of all PDFs)
-			const totalPages = result.personnelPdfs.reduce(
-				(sum: number, pdf) => sum + pdf.pageCount,
+			const result = await Promise.race([
+				processingPromise,
+				timeoutPromise,
+			]).finally(() => clearTimeout(timeout));
+
+			// Validate page count (sum of all personnel PDFs)
+			const totalPages = result.artifacts.reduce(
+				(sum: number, artifact) =>
+					artifact.kind === "personnel-pdf"
+						? sum + artifact.metadata.pageCount
+						: sum,
 				0,
 			);
 
@@ -225,60 +602,11 @@ extractRoutes.post(
 				throw new ProcessingError("Failed to create ZIP archive", err);
 			});
 
-			// Add personnel PDFs
-			for (const pdf of result.personnelPdfs) {
-				const filenameParts = ["PERSONNEL"];
-				if (pdf.dateInfo.year && pdf.dateInfo.month) {
-					filenameParts.push(pdf.dateInfo.year, pdf.dateInfo.month);
-				} else if (pdf.dateInfo.year) {
-					filenameParts.push(pdf.dateInfo.year);
-				}
-				filenameParts.push(pdf.personnelNumber);
-				const filename = sanitizeFilename(filenameParts.join("-") + ".pdf");
-				archive.append(pdf.data, { name: filename });
-			}
-
-			// Add company PDFs
-			for (const pdf of result.companyPdfs) {
-				const filenameParts = ["COMPANY"];
-				if (pdf.dateInfo?.year && pdf.dateInfo?.month) {
-					filenameParts.push(pdf.dateInfo.year, pdf.dateInfo.month);
-				} else if (pdf.dateInfo?.year) {
-					filenameParts.push(pdf.dateInfo.year);
-				}
-				const filename = sanitizeFilename(filenameParts.join("-") + ".pdf");
-				archive.append(pdf.data, { name: filename });
+			// Add PDFs, SEPA transfers file and metadata.json
+			for (const artifact of result.artifacts) {
+				archive.append(artifact.data, { name: artifact.path });
 			}
 
-			// Add SEPA transfers CSV
-			archive.append(result.sepaTransfersCsv, { name: "sepa-transfers.csv" });
-
-			// Generate and add metadata.json
-			// Extract period information from the first personnel PDF (all should have the same period)
-			const periodInfo =
-				result.personnelPdfs.length > 0
-					? result.personnelPdfs[0]?.dateInfo
-					: result.companyPdfs.length > 0
-						? result.companyPdfs[0]?.dateInfo
-						: null;
-
-			const metadata = {
-				period: periodInfo
-					? {
-							year: periodInfo.year || null,
-							month: periodInfo.month || null,
-						}
-					: null,
-				fileCount: {
-					personnel: result.personnelPdfs.length,
-					company: result.companyPdfs.length,
-				},
-			};
-
-			archive.append(JSON.stringify(metadata, null, 2), {
-				name: "metadata.json",
-			});
-
 			// Finalize archive and wait for it to finish
 			await archive.finalize();
 
@@ -291,8 +619,15 @@ extractRoutes.post(
 				"Content-Disposition": 'attachment; filename="datev-extract.zip"',
 			});
 		} catch (error) {
+			// Encrypted PDFs need the password of the uploader
+			const isPasswordError =
+				error instanceof PasswordRequiredError ||
+				error instanceof IncorrectPasswordError;
+
 			// Handle errors with appropriate status codes
-			const response = errorToResponse(error);
+			const response = errorToResponse(
+				isPasswordError ? new PdfPasswordError(error.message) : error,
+			);
 			return c.json(response, response.statusCode as any);
 		}
 	},
@@ -30,6 +30,30 @@ export class FileValidationError extends ApiError {
 	}
 }
 
+/**
+ * Error thrown when a request parameter is invalid
+ * HTTP 400 Bad Request
+ */
+export class InvalidParameterError extends ApiError {
+	public constructor(message: string, details?: unknown) {
+		super(message, 400, details);
+		this.name = "InvalidParameterError";
+		Object.setPrototypeOf(this, InvalidParameterError.prototype);
+	}
+}
+
+/**
+ * Error thrown when an encrypted PDF is uploaded without or with a wrong password
+ * HTTP 400 Bad Request
+ */
+export class PdfPasswordError extends ApiError {
+	public constructor(message: string) {
+		super(message, 400);
+		this.name = "PdfPasswordError";
+		Object.setPrototypeOf(this, PdfPasswordError.prototype);
+	}
+}
+
 /**
  * Error thrown when file size exceeds limit
  * HTTP 413 Payload Too Large
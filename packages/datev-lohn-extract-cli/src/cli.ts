@@ -1,54 +1,199 @@
 #!/usr/bin/env node
 
 import {
-	PageExtractor,
-	PageGrouper,
-	PdfGenerator,
-	SepaTransfersGenerator,
+	DatevBookingBatchGenerator,
+	DatevLohnProcessor,
+	Redactor,
+	TesseractOcrEngine,
 } from "@internal/datev-lohn-extract-core";
-import { program } from "commander";
+import { InvalidArgumentError, Option, program } from "commander";
 import fs from "fs/promises";
 import path from "path";
 
+import type {
+	DatevBookingBatchOptions,
+	ExtractionProgress,
+	PayrollSummaryFormat,
+	PdfEncryptionOptions,
+	RedactionRule,
+} from "@internal/datev-lohn-extract-core";
+
+/**
+ * Parse a non-negative integer option value
+ */
+function parseCount(value: string): number {
+	const count = Number(value);
+	if (!Number.isInteger(count) || count < 0) {
+		throw new InvalidArgumentError("Expected a non-negative integer.");
+	}
+	return count;
+}
+
 /**
- * Generate filename from PDF metadata
+ * Parse a redaction rule option value (repeatable)
  */
-function generateFilename(
-	personnelNumber: string,
-	year: string | null,
-	month: string | null,
-): string {
-	const parts = ["PERSONNEL"];
-	if (year && month) {
-		parts.push(year, month);
-	} else if (year) {
-		parts.push(year);
+function parseRedactionRule(
+	value: string,
+	previous: RedactionRule[],
+): RedactionRule[] {
+	try {
+		return [...previous, Redactor.parseRule(value)];
+	} catch (error) {
+		throw new InvalidArgumentError(
+			error instanceof Error ? error.message : "Invalid redaction rule.",
+		);
 	}
-	parts.push(personnelNumber);
-	return parts.join("-") + ".pdf";
 }
 
 /**
- * Generate filename for company PDFs
+ * Parse a payroll summary format option value (repeatable)
  */
-function generateCompanyFilename(
-	year: string | null,
-	month: string | null,
-): string {
-	const parts = ["COMPANY"];
-	if (year && month) {
-		parts.push(year, month);
-	} else if (year) {
-		parts.push(year);
+function parseSummaryFormat(
+	value: string,
+	previous: PayrollSummaryFormat[] | undefined,
+): PayrollSummaryFormat[] {
+	if (value !== "json" && value !== "csv" && value !== "xlsx") {
+		throw new InvalidArgumentError("Allowed choices are json, csv, xlsx.");
 	}
-	return parts.join("-") + ".pdf";
+	return [...(previous ?? []), value];
+}
+
+/**
+ * Show extraction progress on an interactive terminal (stderr)
+ */
+function reportProgress({ completed, total }: ExtractionProgress): void {
+	if (!process.stderr.isTTY) {
+		return;
+	}
+	process.stderr.write(`\rExtracting page ${completed} of ${total}`);
+	if (completed === total) {
+		process.stderr.write("\n");
+	}
+}
+
+/**
+ * Build the encryption options of the personnel PDFs
+ * The user passwords are read from a JSON file (personnel number -> password)
+ * or derived from a template.
+ */
+async function createEncryptionOptions(
+	options: CliOptions,
+): Promise<PdfEncryptionOptions | undefined> {
+	const { ownerPassword, userPasswordFile, userPasswordTemplate } = options;
+	if (!ownerPassword && !userPasswordFile && !userPasswordTemplate) {
+		return undefined;
+	}
+	if (!ownerPassword) {
+		throw new Error("--owner-password is required for encrypted PDFs");
+	}
+
+	if (userPasswordFile) {
+		let passwords: unknown;
+		try {
+			passwords = JSON.parse(await fs.readFile(userPasswordFile, "utf-8"));
+		} catch (error) {
+			if (!(error instanceof SyntaxError)) {
+				throw error;
+			}
+			passwords = null;
+		}
+		if (
+			typeof passwords !== "object" ||
+			passwords === null ||
+			Array.isArray(passwords) ||
+			Object.values(passwords).some(
+				(password) => typeof password !== "string" || password === "",
+			)
+		) {
+			throw new Error(
+				`${userPasswordFile} must contain a JSON object of personnel numbers and passwords`,
+			);
+		}
+		return {
+			userPassword: {
+				type: "map",
+				passwords: passwords as Record<string, string>,
+			},
+			ownerPassword,
+			algorithm: options.encryption,
+		};
+	}
+	if (userPasswordTemplate) {
+		return {
+			userPassword: { type: "template", template: userPasswordTemplate },
+			ownerPassword,
+			algorithm: options.encryption,
+		};
+	}
+	throw new Error(
+		"--user-password-file or --user-password-template is required for encrypted PDFs",
+	);
+}
+
+/**
+ * Build the options of the DATEV Buchungsstapel
+ * The account mapping (chart of accounts and accounts) is read from a JSON file.
+ * Missing header fields are reported by the generator.
+ */
+async function createDatevOptions(
+	options: CliOptions,
+): Promise<DatevBookingBatchOptions | undefined> {
+	const { datevConsultant, datevClient, datevFiscalYearStart, datevAccounts } =
+		options;
+	if (
+		datevConsultant === undefined &&
+		datevClient === undefined &&
+		!datevFiscalYearStart &&
+		!datevAccounts
+	) {
+		return undefined;
+	}
+
+	const accountConfig = datevAccounts
+		? DatevBookingBatchGenerator.parseAccountConfig(
+				JSON.parse(await fs.readFile(datevAccounts, "utf-8")),
+			)
+		: {};
+	return {
+		...accountConfig,
+		consultantNumber: datevConsultant ?? 0,
+		clientNumber: datevClient ?? 0,
+		fiscalYearStart: datevFiscalYearStart ?? "",
+	};
 }
 
-// Create a new PageExtractor instance.
-const pageExtractor = new PageExtractor();
-const pageGrouper = new PageGrouper();
-const pdfGenerator = new PdfGenerator();
-const sepaTransfersGenerator = new SepaTransfersGenerator();
+/**
+ * Options parsed from the command line
+ */
+interface CliOptions {
+	output?: string;
+	groupBy: "personnel" | "period";
+	sepaFormat: "csv" | "pain001";
+	debtorName?: string;
+	debtorIban?: string;
+	debtorBic?: string;
+	executionDate?: string;
+	allowInvalidIbans?: boolean;
+	summaryFormat?: PayrollSummaryFormat[];
+	summaryNumberFormat: "german" | "international";
+	datevConsultant?: number;
+	datevClient?: number;
+	datevFiscalYearStart?: string;
+	datevAccounts?: string;
+	provenance?: boolean;
+	workers: number;
+	ocr?: boolean;
+	password?: string;
+	ownerPassword?: string;
+	userPasswordFile?: string;
+	userPasswordTemplate?: string;
+	encryption: "AES-128" | "AES-256";
+	redact: RedactionRule[];
+	pdfA?: boolean;
+	author?: string;
+	nameTemplate?: string;
+	companyNameTemplate?: string;
+}
 
 /**
  * Command-line interface
@@ -61,7 +206,120 @@ async function main(): Promise<void> {
 		)
 		.argument("<infile>", "DATEV PDF file to process")
 		.option("-o, --output <directory>", "Output directory", ".")
-		.action(async (infile: string, options: { output?: string }) => {
+		.option("--password <password>", "Password of an encrypted input PDF")
+		.addOption(
+			new Option(
+				"--group-by <mode>",
+				"Group employee pages by personnel number, or by personnel number and payroll period (one PDF per employee and month)",
+			)
+				.choices(["personnel", "period"])
+				.default("personnel"),
+		)
+		.addOption(
+			new Option("--sepa-format <format>", "SEPA transfers output format")
+				.choices(["csv", "pain001"])
+				.default("csv"),
+		)
+		.option("--debtor-name <name>", "Debtor name for pain.001 output")
+		.option("--debtor-iban <iban>", "Debtor IBAN for pain.001 output")
+		.option("--debtor-bic <bic>", "Debtor BIC for pain.001 output")
+		.option(
+			"--execution-date <date>",
+			"Requested execution date (YYYY-MM-DD) for pain.001 output",
+		)
+		.option(
+			"--allow-invalid-ibans",
+			"Include transfers with invalid IBANs in the SEPA output",
+		)
+		.option(
+			"--summary-format <format>",
+			"Payroll summary format: json, csv or xlsx (repeatable, default: all)",
+			parseSummaryFormat,
+		)
+		.addOption(
+			new Option(
+				"--summary-number-format <format>",
+				"Number format of the payroll summary CSV",
+			)
+				.choices(["german", "international"])
+				.default("german"),
+		)
+		.option(
+			"--datev-consultant <number>",
+			"DATEV consultant number (Beraternummer); writes EXTF_Buchungsstapel.csv",
+			parseCount,
+		)
+		.option(
+			"--datev-client <number>",
+			"DATEV client number (Mandantennummer) of the Buchungsstapel",
+			parseCount,
+		)
+		.option(
+			"--datev-fiscal-year-start <date>",
+			"Start of the fiscal year (YYYY-MM-DD) of the Buchungsstapel",
+		)
+		.option(
+			"--datev-accounts <file>",
+			"JSON file with the chart of accounts (SKR03, SKR04) and account overrides of the Buchungsstapel",
+		)
+		.option(
+			"--provenance",
+			"Add the origin and confidence of every extracted field to metadata.json",
+		)
+		.option(
+			"--workers <count>",
+			"Number of worker threads for parallel page extraction (0 = no workers)",
+			parseCount,
+			0,
+		)
+		.option(
+			"--ocr",
+			"Recognize scanned pages without a text layer by OCR (German, tesseract)",
+		)
+		.option(
+			"--owner-password <password>",
+			"Owner password of encrypted personnel PDFs",
+		)
+		.addOption(
+			new Option(
+				"--user-password-file <file>",
+				"JSON file mapping personnel numbers to the passwords of their PDFs",
+			).conflicts("userPasswordTemplate"),
+		)
+		.option(
+			"--user-password-template <template>",
+			"Password template for personnel PDFs, e.g. {personnelNumber}-{year} (placeholders: {personnelNumber}, {employeeName}, {year}, {month}, {birthDate} as DDMMYYYY)",
+		)
+		.addOption(
+			new Option("--encryption <algorithm>", "Cipher of encrypted PDFs")
+				.choices(["AES-256", "AES-128"])
+				.default("AES-256"),
+		)
+		.option(
+			"--redact <rule>",
+			"Redact a field kind (iban, taxId, socialSecurityNumber) or /regex/ in generated PDFs, provenance, warnings and the payroll summary (repeatable)",
+			parseRedactionRule,
+			[],
+		)
+		.addOption(
+			new Option(
+				"--pdf-a",
+				"Generate PDF/A-2b documents for long-term archiving",
+			).conflicts("ownerPassword"),
+		)
+		.option(
+			"--author <name>",
+			"Author of the generated PDFs, e.g. the company (default: author of the input PDF)",
+		)
+		.option(
+			"--name-template <template>",
+			"Path template of personnel PDFs, e.g. {period:yyyy-MM}/{personnelNumber}_{employeeName|slug}.pdf (see README)",
+		)
+		.option(
+			"--company-name-template <template>",
+			"Path template of company PDFs, e.g. {period:yyyy-MM}/company.pdf (see README)",
+		)
+		.action(async (infile: string, options: CliOptions) => {
 			try {
 				const outputDir = options.output || ".";
 				const filename = path.basename(infile);
@@ -72,53 +330,66 @@ async function main(): Promise<void> {
 				// Read PDF file
 				const pdfBuffer = await fs.readFile(infile);
 
-				const extractedPages = await pageExtractor.extractPages(pdfBuffer);
-				const groupedPages = pageGrouper.groupByPersonnel(extractedPages);
+				const ocrEngine = options.ocr ? new TesseractOcrEngine() : null;
+				const processor = new DatevLohnProcessor({
+					workers: options.workers,
+					ocr: ocrEngine ? { engine: ocrEngine } : undefined,
+				});
+				const result = await processor
+					.process(pdfBuffer, {
+						onProgress: reportProgress,
+						password: options.password,
+						groupBy: options.groupBy,
+						sepa:
+							options.sepaFormat === "pain001"
+								? {
+										format: "pain001",
+										debtorName: options.debtorName ?? "",
+										debtorIban: options.debtorIban ?? "",
+										debtorBic: options.debtorBic,
+										requestedExecutionDate: options.executionDate,
+										allowInvalidIbans: options.allowInvalidIbans,
+									}
+								: {
+										format: "csv",
+										allowInvalidIbans: options.allowInvalidIbans,
+									},
+						summary: {
+							formats: options.summaryFormat,
+							numberFormat: options.summaryNumberFormat,
+						},
+						datev: await createDatevOptions(options),
+						encryption: await createEncryptionOptions(options),
+						redactor:
+							options.redact.length > 0
+								? new Redactor({ rules: options.redact })
+								: undefined,
+						documentInfo: { author: options.author },
+						pdfA: options.pdfA,
+						includeProvenance: options.provenance,
+						naming: {
+							personnel: options.nameTemplate,
+							company: options.companyNameTemplate,
+						},
+					})
+					.finally(() => ocrEngine?.terminate());
 
-				// Save personnel PDFs
-				for (const pdf of groupedPages.personnelGroups) {
-					const generatedPdf = await pdfGenerator.generatePersonnelPdf(
-						pdf,
-						pdfBuffer,
+				// Report extraction warnings
+				for (const warning of result.metadata.warnings) {
+					console.warn(
+						`Warning (page ${warning.pageIndex + 1}): ${warning.message}`,
 					);
-
-					const pdfFilename = generateFilename(
-						pdf.personnelNumber,
-						pdf.dateInfo.year,
-						pdf.dateInfo.month,
-					);
-
-					const pdfPath = path.join(outputDir, pdfFilename);
-					await fs.writeFile(pdfPath, generatedPdf.data);
 				}
 
-				// Save company PDFs
-				if (groupedPages.companyGroups.length > 0) {
-					for (const pdf of groupedPages.companyGroups) {
-						const generatedPdf = await pdfGenerator.generateCompanyPdf(
-							pdf,
-							pdfBuffer,
-						);
-
-						const pdfFilename = generateCompanyFilename(
-							pdf.dateInfo?.year ?? null,
-							pdf.dateInfo?.month ?? null,
-						);
-						const pdfPath = path.join(outputDir, pdfFilename);
-						await fs.writeFile(pdfPath, generatedPdf.data);
-					}
+				// Save PDFs, SEPA transfers file, payroll summaries, Buchungsstapel
+				// and metadata.json
+				// (naming templates may place them in subdirectories)
+				for (const artifact of result.artifacts) {
+					const filePath = path.join(outputDir, artifact.path);
+					await fs.mkdir(path.dirname(filePath), { recursive: true });
+					await fs.writeFile(filePath, artifact.data);
 				}
 
-				// Save SEPA transfers CSV
-				const sepaPath = path.join(outputDir, "sepa-transfers.csv");
-				await fs.writeFile(
-					sepaPath,
-					sepaTransfersGenerator.generateSepaTransfersCsv(
-						groupedPages.personnelGroups,
-					),
-					"utf-8",
-				);
-
 				console.log(`Processed ${filename} -> ${outputDir}`);
 			} catch (error) {
 				const errorMessage =
@@ -0,0 +1,133 @@
+import { readFileSync } from "fs";
+import { fileURLToPath } from "url";
+
+import { normalizeIban } from "./iban.js";
+
+/**
+ * Location of the bundled BLZ table (relative to src/banking or dist/banking)
+ * Generated with tooling/generate-blz-data.sh, or replaced by the Bundesbank
+ * file with tooling/update-blz-data.sh
+ */
+const BUNDLED_BLZ_FILE = fileURLToPath(
+	new URL("../../data/blz.txt", import.meta.url),
+);
+
+/**
+ * Bank information from the Bundesbank BLZ table
+ */
+export interface BankInfo {
+	/** Bankleitzahl (8 digits) */
+	blz: string;
+	/** BIC, or null if the bank has none */
+	bic: string | null;
+	/** Full bank name (empty if not listed) */
+	name: string;
+	/** Short bank name (empty if not listed) */
+	shortName: string;
+	/** Postal code (empty if not listed) */
+	postalCode: string;
+	/** City */
+	city: string;
+}
+
+/**
+ * Offline bank directory based on the Bundesbank BLZ table
+ * Resolves BIC and bank name from a German BLZ or IBAN
+ */
+export class BankDirectory {
+	private static defaultInstance: BankDirectory | null = null;
+
+	/**
+	 * Parse the Bundesbank BLZ table (fixed-width text format, 168 characters per line)
+	 * Only main entries (Merkmal "1") are included; branches share their BIC.
+	 *
+	 * @param content - File content (decoded from ISO-8859-1)
+	 * @returns Bank directory
+	 */
+	public static parse(content: string): BankDirectory {
+		const entries: BankInfo[] = [];
+
+		for (const line of content.split(/\r?\n/)) {
+			if (line.length < 150 || line[8] !== "1") {
+				continue;
+			}
+
+			const field = (start: number, length: number): string =>
+				line.slice(start, start + length).trim();
+
+			entries.push({
+				blz: field(0, 8),
+				name: field(9, 58),
+				postalCode: field(67, 5),
+				city: field(72, 35),
+				shortName: field(107, 27),
+				bic: field(139, 11) || null,
+			});
+		}
+
+		return new BankDirectory(entries);
+	}
+
+	/**
+	 * Load a Bundesbank BLZ table from a file
+	 *
+	 * @param path - Path to the BLZ text file (ISO-8859-1 encoded)
+	 * @returns Bank directory
+	 */
+	public static fromFile(path: string): BankDirectory {
+		return BankDirectory.parse(readFileSync(path, "latin1"));
+	}
+
+	/**
+	 * Get the bank directory from the BLZ table bundled with this package
+	 *
+	 * @returns Shared bank directory instance
+	 */
+	public static getDefault(): BankDirectory {
+		BankDirectory.defaultInstance ??= BankDirectory.fromFile(BUNDLED_BLZ_FILE);
+		return BankDirectory.defaultInstance;
+	}
+
+	private readonly entries: Map<string, BankInfo>;
+
+	public constructor(entries: BankInfo[]) {
+		this.entries = new Map();
+		for (const entry of entries) {
+			// Keep the first entry per BLZ (the main entry precedes its branches)
+			if (!this.entries.has(entry.blz)) {
+				this.entries.set(entry.blz, entry);
+			}
+		}
+	}
+
+	/**
+	 * Number of banks in the directory
+	 */
+	public get size(): number {
+		return this.entries.size;
+	}
+
+	/**
+	 * Look up a bank by its BLZ
+	 *
+	 * @param blz - Bankleitzahl (8 digits, spaces are ignored)
+	 * @returns Bank information or null if unknown
+	 */
+	public lookupBlz(blz: string): BankInfo | null {
+		return this.entries.get(blz.replace(/\s/g, "")) ?? null;
+	}
+
+	/**
+	 * Look up a bank by a German IBAN (BLZ at positions 5-12)
+	 *
+	 * @param iban - German IBAN in any formatting
+	 * @returns Bank information or null if not a German IBAN or unknown
+	 */
+	public lookupIban(iban: string): BankInfo | null {
+		const normalized = normalizeIban(iban);
+		if (!normalized.startsWith("DE") || normalized.length < 12) {
+			return null;
+		}
+		return this.lookupBlz(normalized.slice(4, 12));
+	}
+}
@@ -0,0 +1,177 @@
+/**
+ * IBAN lengths per country (SWIFT IBAN registry)
+ */
+const IBAN_LENGTHS: Record<string, number> = {
+	AD: 24,
+	AE: 23,
+	AL: 28,
+	AT: 20,
+	AZ: 28,
+	BA: 20,
+	BE: 16,
+	BG: 22,
+	BH: 22,
+	BR: 29,
+	BY: 28,
+	CH: 21,
+	CR: 22,
+	CY: 28,
+	CZ: 24,
+	DE: 22,
+	DK: 18,
+	DO: 28,
+	EE: 20,
+	EG: 29,
+	ES: 24,
+	FI: 18,
+	FO: 18,
+	FR: 27,
+	GB: 22,
+	GE: 22,
+	GI: 23,
+	GL: 18,
+	GR: 27,
+	GT: 28,
+	HR: 21,
+	HU: 28,
+	IE: 22,
+	IL: 23,
+	IQ: 23,
+	IS: 26,
+	IT: 27,
+	JO: 30,
+	KW: 30,
+	KZ: 20,
+	LB: 28,
+	LC: 32,
+	LI: 21,
+	LT: 20,
+	LU: 20,
+	LV: 21,
+	MC: 27,
+	MD: 24,
+	ME: 22,
+	MK: 19,
+	MR: 27,
+	MT: 31,
+	MU: 30,
+	NL: 18,
+	NO: 15,
+	PK: 24,
+	PL: 28,
+	PS: 29,
+	PT: 25,
+	QA: 29,
+	RO: 24,
+	RS: 22,
+	SA: 24,
+	SC: 31,
+	SE: 24,
+	SI: 19,
+	SK: 24,
+	SM: 27,
+	ST: 25,
+	SV: 28,
+	TL: 23,
+	TN: 24,
+	TR: 26,
+	UA: 29,
+	VA: 22,
+	VG: 24,
+	XK: 20,
+};
+
+/**
+ * Compute the ISO 7064 mod-97 remainder of an alphanumeric string
+ * Letters are converted to numbers (A = 10, ..., Z = 35)
+ */
+function mod97(value: string): number {
+	let remainder = 0;
+	for (const char of value) {
+		const digits = /\d/.test(char) ? char : String(char.charCodeAt(0) - 55); // "A" (65) -> 10
+		for (const digit of digits) {
+			remainder = (remainder * 10 + Number(digit)) % 97;
+		}
+	}
+	return remainder;
+}
+
+/**
+ * IBAN validation (country-specific length and ISO 7064 mod-97 checksum)
+ */
+
+/**
+ * Reason why an IBAN is invalid
+ */
+export type IbanValidationError = "FORMAT" | "COUNTRY" | "LENGTH" | "CHECKSUM";
+
+/**
+ * Result of an IBAN validation
+ */
+export interface IbanValidationResult {
+	/** Whether the IBAN is valid */
+	valid: boolean;
+	/** Normalized IBAN (uppercase, without spaces) */
+	iban: string;
+	/** Reason for the failed validation, or null if valid */
+	error: IbanValidationError | null;
+}
+
+/**
+ * Normalize an IBAN: remove whitespace and convert to uppercase
+ *
+ * @param value - IBAN in any formatting
+ * @returns Normalized IBAN
+ */
+export function normalizeIban(value: string): string {
+	return value.replace(/\s/g, "").toUpperCase();
+}
+
+/**
+ * Validate an IBAN by format, country-specific length and mod-97 checksum
+ *
+ * @example
+ * ```typescript
+ * validateIban("DE89 3704 0044 0532 0130 00");
+ * // { valid: true, iban: "DE89370400440532013000", error: null }
+ * ```
+ *
+ * @param value - IBAN in any formatting
+ * @returns Validation result with normalized IBAN
+ */
+export function validateIban(value: string): IbanValidationResult {
+	const iban = normalizeIban(value);
+	const invalid = (error: IbanValidationError): IbanValidationResult => ({
+		valid: false,
+		iban,
+		error,
+	});
+
+	if (!/^[A-Z]{2}\d{2}[A-Z0-9]+$/.test(iban)) {
+		return invalid("FORMAT");
+	}
+
+	const expectedLength = IBAN_LENGTHS[iban.slice(0, 2)];
+	if (expectedLength === undefined) {
+		return invalid("COUNTRY");
+	}
+	if (iban.length !== expectedLength) {
+		return invalid("LENGTH");
+	}
+
+	if (mod97(iban.slice(4) + iban.slice(0, 4)) !== 1) {
+		return invalid("CHECKSUM");
+	}
+
+	return { valid: true, iban, error: null };
+}
+
+/**
+ * Check whether an IBAN is valid
+ *
+ * @param value - IBAN in any formatting
+ * @returns true if format, length and checksum are valid
+ */
+export function isValidIban(value: string): boolean {
+	return validateIban(value).valid;
+}
@@ -0,0 +1,2 @@
+export * from "./bank-directory.js";
+export * from "./iban.js";
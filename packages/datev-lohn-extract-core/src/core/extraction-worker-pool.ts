@@ -0,0 +1,232 @@
+import path from "path";
+import { Worker } from "worker_threads";
+
+import { ExtractionAbortedError, ExtractionError } from "../errors.js";
+import { Money } from "../money.js";
+import { PayrollPeriod } from "../period.js";
+
+import type { BasePage, ExtractedPage } from "../types.js";
+import type { ExtractPagesOptions, PageRange } from "./page-extractor.js";
+
+/**
+ * Page fields holding a PayrollPeriod (serialized as ISO string)
+ */
+const PERIOD_FIELDS = new Set(["period", "correctedPeriod"]);
+
+/**
+ * Extension of this module: ".js" in dist/core, ".ts" when running from
+ * source under tsx (e.g. in development)
+ */
+const MODULE_EXTENSION = path.extname(new URL(import.meta.url).pathname);
+
+/**
+ * Location of the worker entry module (next to this module)
+ */
+const WORKER_URL = new URL(
+	`./extraction-worker${MODULE_EXTENSION}`,
+	import.meta.url,
+);
+
+/**
+ * Check whether a parsed JSON value is a serialized Money value
+ */
+function isMoneyJson(
+	value: unknown,
+): value is { amount: string; currency: string } {
+	if (typeof value !== "object" || value === null) {
+		return false;
+	}
+	const keys = Object.keys(value);
+	return (
+		keys.length === 2 &&
+		"amount" in value &&
+		"currency" in value &&
+		typeof value.amount === "string" &&
+		typeof value.currency === "string"
+	);
+}
+
+/**
+ * Start an extraction worker
+ * tsx registers its loader in the main thread only, so workers started from
+ * source register it themselves before loading the TypeScript entry module.
+ */
+function startWorker(workerData: ExtractionWorkerData): Worker {
+	if (MODULE_EXTENSION !== ".ts") {
+		return new Worker(WORKER_URL, { workerData });
+	}
+	const bootstrap = `import("tsx/esm/api").then(({ register }) => { register(); return import(${JSON.stringify(WORKER_URL.href)}); });`;
+	return new Worker(bootstrap, { eval: true, workerData });
+}
+
+/**
+ * Data passed to an extraction worker
+ */
+export interface ExtractionWorkerData {
+	/** PDF file content */
+	data: Uint8Array;
+	/** Pages to extract */
+	pageRange: PageRange;
+	/** User password of an encrypted PDF */
+	password?: string;
+}
+
+/**
+ * Messages posted by an extraction worker
+ * Pages are sent as JSON, as structured cloning drops the Money and
+ * PayrollPeriod classes.
+ */
+export type ExtractionWorkerMessage =
+	| { type: "page"; page: string }
+	| { type: "done" }
+	| { type: "error"; message: string; pageIndex: number | null };
+
+/**
+ * Pool of worker threads extracting page ranges of a PDF in parallel
+ * Every worker loads the document once and extracts one contiguous range
+ * with the built-in form handlers; pages are yielded in page order.
+ *
+ * @template TPage - Page types produced by the workers
+ */
+export class ExtractionWorkerPool<TPage extends BasePage = ExtractedPage> {
+	/**
+	 * Restore Money and PayrollPeriod values in a page sent as JSON
+	 */
+	private static revivePage<TPage>(json: string): TPage {
+		return JSON.parse(json, (key, value: unknown) => {
+			if (isMoneyJson(value)) {
+				return Money.fromJSON(value);
+			}
+			if (PERIOD_FIELDS.has(key) && typeof value === "string") {
+				return PayrollPeriod.tryParse(value) ?? value;
+			}
+			return value;
+		}) as TPage;
+	}
+
+	/**
+	 * Split a page range into at most `count` contiguous ranges of similar size
+	 */
+	private static splitRange(range: PageRange, count: number): PageRange[] {
+		const total = range.end - range.start;
+		const parts = Math.max(1, Math.min(count, total));
+		const ranges: PageRange[] = [];
+
+		for (let i = 0; i < parts; i++) {
+			ranges.push({
+				start: range.start + Math.floor((total * i) / parts),
+				end: range.start + Math.floor((total * (i + 1)) / parts),
+			});
+		}
+
+		return ranges;
+	}
+
+	/**
+	 * @param concurrency - Maximum number of worker threads per extraction
+	 */
+	public constructor(private readonly concurrency: number) {}
+
+	/**
+	 * Extract a page range in worker threads
+	 *
+	 * @param pdfBuffer - PDF file as Buffer
+	 * @param range - Pages to extract
+	 * @param options - Abort signal and progress callback
+	 * @returns Async iterator of extracted pages in page order
+	 * @throws {ExtractionError} If a worker fails (with the failing page index)
+	 * @throws {ExtractionAbortedError} If the extraction was aborted
+	 */
+	public async *extract(
+		pdfBuffer: Buffer,
+		range: PageRange,
+		options: ExtractPagesOptions = {},
+	): AsyncGenerator<TPage, void, undefined> {
+		const { signal, onProgress } = options;
+		const pages = new Map<number, TPage>();
+		let completed = 0;
+		let failure: Error | null = null;
+
+		// Wakes up the consumer loop whenever a worker reports back
+		let wake: (() => void) | null = null;
+		const notify = (): void => {
+			wake?.();
+			wake = null;
+		};
+
+		const workers = ExtractionWorkerPool.splitRange(
+			range,
+			this.concurrency,
+		).map((pageRange) => {
+			const workerData: ExtractionWorkerData = {
+				data: new Uint8Array(pdfBuffer),
+				pageRange,
+				password: options.password,
+			};
+			const worker = startWorker(workerData);
+			let done = false;
+
+			worker.on("message", (message: ExtractionWorkerMessage) => {
+				if (message.type === "page") {
+					const page = ExtractionWorkerPool.revivePage<TPage>(message.page);
+					pages.set(page.pageIndex, page);
+					completed++;
+					onProgress?.({
+						completed,
+						total: range.end - range.start,
+						pageIndex: page.pageIndex,
+					});
+				} else if (message.type === "done") {
+					done = true;
+				} else {
+					failure ??=
+						message.pageIndex !== null
+							? new ExtractionError(message.message, message.pageIndex)
+							: new ExtractionError(message.message);
+				}
+				notify();
+			});
+			worker.on("error", (error) => {
+				failure ??= new ExtractionError(`Worker failed: ${error.message}`);
+				notify();
+			});
+			worker.on("exit", (code) => {
+				if (!done && !failure) {
+					failure = new ExtractionError(
+						`Worker exited unexpectedly with code ${code}`,
+					);
+				}
+				notify();
+			});
+
+			return worker;
+		});
+
+		signal?.addEventListener("abort", notify);
+
+		try {
+			for (let pageIndex = range.start; pageIndex < range.end; pageIndex++) {
+				let page = pages.get(pageIndex);
+				while (!page) {
+					if (signal?.aborted) {
+						throw new ExtractionAbortedError();
+					}
+					if (failure) {
+						throw failure;
+					}
+					await new Promise<void>((resolve) => {
+						wake = resolve;
+					});
+					page = pages.get(pageIndex);
+				}
+
+				pages.delete(pageIndex);
+				yield page;
+			}
+		} finally {
+			// Stops workers that are still running (abort, failure or early return)
+			signal?.removeEventListener("abort", notify);
+			await Promise.all(workers.map((worker) => worker.terminate()));
+		}
+	}
+}
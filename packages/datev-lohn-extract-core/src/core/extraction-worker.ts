@@ -0,0 +1,46 @@
+/**
+ * Worker thread entry point of the ExtractionWorkerPool
+ * Extracts the page range given in workerData and posts every page as JSON
+ */
+
+import { parentPort, workerData } from "worker_threads";
+
+import { ExtractionError } from "../errors.js";
+import { PageExtractor } from "./page-extractor.js";
+
+import type {
+	ExtractionWorkerData,
+	ExtractionWorkerMessage,
+} from "./extraction-worker-pool.js";
+
+const { data, pageRange, password } = workerData as ExtractionWorkerData;
+
+const post = (message: ExtractionWorkerMessage): void => {
+	parentPort?.postMessage(message);
+};
+
+try {
+	const extractor = new PageExtractor();
+	for await (const page of extractor.extractPagesIterable(Buffer.from(data), {
+		pageRange,
+		password,
+	})) {
+		post({ type: "page", page: JSON.stringify(page) });
+	}
+	post({ type: "done" });
+} catch (error) {
+	if (error instanceof ExtractionError && error.pageIndex !== undefined) {
+		// The main thread adds the "Page n: " prefix again
+		post({
+			type: "error",
+			message: error.message.replace(`Page ${error.pageIndex}: `, ""),
+			pageIndex: error.pageIndex,
+		});
+	} else {
+		post({
+			type: "error",
+			message: error instanceof Error ? error.message : "Unknown error",
+			pageIndex: null,
+		});
+	}
+}
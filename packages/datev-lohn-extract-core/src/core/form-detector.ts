@@ -1,16 +1,16 @@
-import { allFormHandlers, UnknownForm } from "./forms/index.js";
+import { FormRegistry } from "./form-registry.js";
 
 import type { FormType } from "../types.js";
 import type { AbstractForm } from "./forms/index.js";
 
 /**
- * Pattern to detect explicit form numbers in documents
+ * Registry with the built-in form handlers
  */
-const FORM_NUMBER_PATTERN =
-	/(?:Form\.-Nr\.|Formular-Nr\.|F\.-Nr\.)\s*:?\s*([A-Z0-9]+)/i;
+const builtInForms = FormRegistry.createDefault();
 
 /**
- * Form type detector - uses form classes for centralized detection
+ * Form type detector for the built-in form handlers
+ * Use a FormRegistry instance to detect custom form types.
  */
 export class FormDetector {
 	/**
@@ -21,24 +21,8 @@ export class FormDetector {
 	 * @returns Detected form type code
 	 */
 	public static detectFormType(text: string): FormType {
-		// Try to find explicit form number
-		const formMatch = text.match(FORM_NUMBER_PATTERN);
-		if (formMatch && formMatch[1]) {
-			const formCode = formMatch[1].toUpperCase();
-
-			// Check if we have a handler for this exact form code
-			const handler = allFormHandlers.find((f) => f.formType === formCode);
-			if (handler) {
-				return handler.formType;
-			}
-
-			// If we found a form number but no handler, return UNKNOWN
-			// (will be handled by UnknownForm and skipped from output)
-			return "UNKNOWN";
-		}
-
-		// No form number found - mark as unknown
-		return "UNKNOWN";
+		// The built-in registry only knows built-in form types
+		return builtInForms.detectFormType(text) as FormType;
 	}
 
 	/**
@@ -49,8 +33,6 @@ export class FormDetector {
 	 * @returns Form class instance
 	 */
 	public static getFormHandler(formType: FormType): AbstractForm<any> {
-		// Find matching form handler
-		const handler = allFormHandlers.find((f) => f.formType === formType);
-		return handler || new UnknownForm();
+		return builtInForms.getHandler(formType);
 	}
 }
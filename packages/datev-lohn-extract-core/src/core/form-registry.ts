@@ -0,0 +1,299 @@
+import { FormDetectionError } from "../errors.js";
+import { allFormHandlers } from "./forms/index.js";
+
+import type { BasePage, ExtractedPage } from "../types.js";
+import type { AbstractForm } from "./forms/index.js";
+
+/**
+ * Pattern to detect explicit form numbers in documents
+ */
+const FORM_NUMBER_PATTERN =
+	/(?:Form\.-Nr\.|Formular-Nr\.|F\.-Nr\.)\s*:?\s*([A-Z0-9]+)/i;
+
+/**
+ * Form type used for pages without a registered handler
+ */
+const UNKNOWN_FORM_TYPE = "UNKNOWN";
+
+/**
+ * Registered form handler with its priority
+ */
+interface FormRegistration {
+	handler: AbstractForm<BasePage>;
+	priority: number;
+	sequence: number;
+}
+
+export interface FormRegistryOptions {
+	/**
+	 * Minimum heuristic score (0-1) for classifying a page without form number.
+	 * The score is the weight of the matched signals divided by the total
+	 * positive weight of the form's signals. Defaults to 0.5; values above 1
+	 * disable the heuristic.
+	 */
+	classificationThreshold?: number;
+}
+
+export interface FormRegistrationOptions {
+	/**
+	 * Priority of the handler for its form type. If several handlers are
+	 * registered for the same form type, the one with the highest priority is
+	 * used; on equal priority the most recently registered one wins.
+	 * Built-in handlers have priority 0. Defaults to 0.
+	 */
+	priority?: number;
+}
+
+/**
+ * How a form type was determined
+ * - FORM_NUMBER: explicit form number of a registered form
+ * - UNREGISTERED_FORM_NUMBER: explicit form number without registered handler
+ * - HEURISTIC: best heuristic score above the threshold
+ * - NO_MATCH: no form number and no heuristic score above the threshold
+ */
+export type FormClassificationReason =
+	| "FORM_NUMBER"
+	| "UNREGISTERED_FORM_NUMBER"
+	| "HEURISTIC"
+	| "NO_MATCH";
+
+/**
+ * Result of a form classification
+ */
+export interface FormClassification {
+	/** Detected form type code, or "UNKNOWN" */
+	formType: string;
+	/** How the form type was determined */
+	reason: FormClassificationReason;
+	/** Confidence between 0 and 1 (1 for explicit form numbers) */
+	score: number;
+	/** Explicit form number found on the page, or null */
+	formNumber: { code: string; snippet: string; offset: number } | null;
+	/** Names of the matched signals of the detected form (heuristic only) */
+	matchedSignals: string[];
+	/** Heuristic score per form type with signals (empty if a form number was found) */
+	scores: Record<string, number>;
+}
+
+/**
+ * Registry of form handlers used for form detection and extraction
+ * Custom handlers (e.g. Mandant-specific forms) can be added at runtime
+ * and may override built-in handlers for the same form type.
+ *
+ * @template TPage - Union of the page types produced by the registered handlers
+ *
+ * @example
+ * ```typescript
+ * const registry = FormRegistry.createDefault().register(new MyForm(), {
+ *   priority: 10,
+ * });
+ * const extractor = new PageExtractor({ formRegistry: registry });
+ * const pages = await extractor.extractPages(pdfBuffer); // (ExtractedPage | MyPage)[]
+ * ```
+ */
+export class FormRegistry<TPage extends BasePage = ExtractedPage> {
+	/**
+	 * Create a registry with the built-in form handlers (LOGN17, LOMS05, UNKNOWN)
+	 * Custom page types are added by registering their handlers, which widens
+	 * the page type of the returned registry.
+	 *
+	 * @param options - Registry options
+	 * @returns New registry instance
+	 */
+	public static createDefault(
+		options: FormRegistryOptions = {},
+	): FormRegistry<ExtractedPage> {
+		const registry = new FormRegistry<ExtractedPage>(options);
+		for (const handler of allFormHandlers) {
+			registry.register(handler);
+		}
+		return registry;
+	}
+
+	private readonly registrations: FormRegistration[] = [];
+	private readonly classificationThreshold: number;
+	private sequence = 0;
+
+	public constructor(options: FormRegistryOptions = {}) {
+		this.classificationThreshold = options.classificationThreshold ?? 0.5;
+	}
+
+	/**
+	 * Register a form handler
+	 *
+	 * @param handler - Form handler instance
+	 * @param options - Registration options (priority)
+	 * @returns This registry, typed to include the handler's page type
+	 */
+	public register<TCustom extends BasePage>(
+		handler: AbstractForm<TCustom>,
+		options: FormRegistrationOptions = {},
+	): FormRegistry<TPage | TCustom> {
+		this.registrations.push({
+			handler,
+			priority: options.priority ?? 0,
+			sequence: this.sequence++,
+		});
+		return this as FormRegistry<TPage | TCustom>;
+	}
+
+	/**
+	 * Remove all handlers for a form type
+	 *
+	 * @param formType - Form type code
+	 * @returns true if at least one handler was removed
+	 */
+	public unregister(formType: string): boolean {
+		const before = this.registrations.length;
+		for (let i = this.registrations.length - 1; i >= 0; i--) {
+			if (this.registrations[i]!.handler.formType === formType) {
+				this.registrations.splice(i, 1);
+			}
+		}
+		return this.registrations.length !== before;
+	}
+
+	/**
+	 * Check whether a handler is registered for a form type
+	 *
+	 * @param formType - Form type code
+	 */
+	public has(formType: string): boolean {
+		return this.get(formType) !== null;
+	}
+
+	/**
+	 * Get the active handler for a form type
+	 *
+	 * @param formType - Form type code
+	 * @returns Handler with the highest priority, or null if none is registered
+	 */
+	public get(formType: string): AbstractForm<TPage> | null {
+		let active: FormRegistration | null = null;
+		for (const registration of this.registrations) {
+			if (
+				registration.handler.formType === formType &&
+				(!active ||
+					registration.priority > active.priority ||
+					(registration.priority === active.priority &&
+						registration.sequence > active.sequence))
+			) {
+				active = registration;
+			}
+		}
+		return (active?.handler as AbstractForm<TPage> | undefined) ?? null;
+	}
+
+	/**
+	 * Form type codes with at least one registered handler
+	 */
+	public get formTypes(): string[] {
+		return [...new Set(this.registrations.map((r) => r.handler.formType))];
+	}
+
+	/**
+	 * Detect the form type from page text
+	 *
+	 * @param text - Page text content
+	 * @returns Registered form type code, or "UNKNOWN"
+	 */
+	public detectFormType(text: string): string {
+		return this.classify(text).formType;
+	}
+
+	/**
+	 * Classify a page by its text
+	 * An explicit form number (Form.-Nr., Formular-Nr., F.-Nr.) always wins.
+	 * Without one, every handler's classification signals are scored and the
+	 * best form above the threshold is chosen.
+	 *
+	 * @param text - Page text content
+	 * @returns Classification with form type, reason and score
+	 */
+	public classify(text: string): FormClassification {
+		const formMatch = FORM_NUMBER_PATTERN.exec(text);
+		if (formMatch && formMatch[1]) {
+			const formCode = formMatch[1].toUpperCase();
+
+			// Only form codes with a registered handler are recognized; other
+			// form numbers identify a different form, so no heuristic is applied
+			const registered = formCode !== UNKNOWN_FORM_TYPE && this.has(formCode);
+			return {
+				formType: registered ? formCode : UNKNOWN_FORM_TYPE,
+				reason: registered ? "FORM_NUMBER" : "UNREGISTERED_FORM_NUMBER",
+				score: 1,
+				formNumber: {
+					code: formCode,
+					snippet: formMatch[0],
+					offset: formMatch.index,
+				},
+				matchedSignals: [],
+				scores: {},
+			};
+		}
+
+		const scores: Record<string, number> = {};
+		let best: { formType: string; score: number; matched: string[] } | null =
+			null;
+
+		for (const formType of this.formTypes) {
+			const signals = this.get(formType)?.classificationSignals ?? [];
+			const totalWeight = signals.reduce(
+				(sum, s) => sum + Math.max(0, s.weight),
+				0,
+			);
+			if (formType === UNKNOWN_FORM_TYPE || totalWeight <= 0) {
+				continue;
+			}
+
+			const matched = signals.filter((signal) => signal.pattern.test(text));
+			const score = Math.max(
+				0,
+				matched.reduce((sum, s) => sum + s.weight, 0) / totalWeight,
+			);
+			scores[formType] = score;
+
+			if (!best || score > best.score) {
+				best = { formType, score, matched: matched.map((s) => s.name) };
+			}
+		}
+
+		if (best && best.score >= this.classificationThreshold) {
+			return {
+				formType: best.formType,
+				reason: "HEURISTIC",
+				score: best.score,
+				formNumber: null,
+				matchedSignals: best.matched,
+				scores,
+			};
+		}
+
+		return {
+			formType: UNKNOWN_FORM_TYPE,
+			reason: "NO_MATCH",
+			score: 0,
+			formNumber: null,
+			matchedSignals: [],
+			scores,
+		};
+	}
+
+	/**
+	 * Get the handler for a form type, falling back to the UNKNOWN handler
+	 *
+	 * @param formType - Form type code
+	 * @returns Form handler instance
+	 * @throws {FormDetectionError} If neither the form type nor UNKNOWN has a registered handler
+	 */
+	public getHandler(formType: string): AbstractForm<TPage> {
+		const handler = this.get(formType) ?? this.get(UNKNOWN_FORM_TYPE);
+		if (!handler) {
+			throw new FormDetectionError(
+				"No handler registered, and no UNKNOWN handler as fallback",
+				formType,
+			);
+		}
+		return handler;
+	}
+}
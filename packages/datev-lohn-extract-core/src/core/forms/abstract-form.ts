@@ -3,39 +3,242 @@
  * Each form type extends this class and implements form-specific extraction logic
  */
 
-import type { FormType } from "../../types.js";
+import { PayrollPeriod } from "../../period.js";
+
+import type {
+	BasePage,
+	FieldProvenance,
+	FieldProvenanceMap,
+} from "../../types.js";
+import type { LayoutValueMatch, PageLayout } from "../page-layout.js";
+
+/**
+ * Weighted keyword or structure signal for heuristic form classification
+ */
+export interface ClassificationSignal {
+	/** Short name reported in the classification result */
+	name: string;
+	/** Pattern searched in the raw page text */
+	pattern: RegExp;
+	/** Weight relative to the other signals of the form (negative weights count against the form) */
+	weight: number;
+}
+
+/**
+ * Pattern identifier and confidence reported for a matched field
+ */
+export interface FieldSource {
+	/** Pattern identifier (prefixed with the form type) */
+	patternId: string;
+	/** Confidence of a value found by this pattern or lookup */
+	confidence: number;
+	/** Capture group containing the value (text patterns only, default: 1) */
+	group?: number;
+}
+
+/**
+ * Extracted field value together with its provenance
+ */
+export interface FieldMatch {
+	/** Extracted value text */
+	value: string;
+	/** Where the value came from */
+	provenance: FieldProvenance;
+}
+
+/**
+ * Extracted payroll period together with its provenance
+ */
+export interface PeriodMatch extends FieldMatch {
+	/** Parsed period (value holds the period text as found) */
+	period: PayrollPeriod;
+}
 
 /**
  * Abstract base class for form extraction
  *
+ * Custom forms extend this class with their own page type (extending BasePage)
+ * and are registered in a FormRegistry.
+ *
  * @template TMetadata - The specific page type this form produces (e.g., LOGN17Page, LSBPage)
  */
-export abstract class AbstractForm<TMetadata> {
+export abstract class AbstractForm<TMetadata extends BasePage = BasePage> {
+	/**
+	 * Signals used to classify pages without an explicit form number
+	 * Forms without signals are only detected by their form number.
+	 */
+	public readonly classificationSignals: ClassificationSignal[] = [];
+
 	/**
 	 * The form type identifier (LOGN17, LOA, LSB, etc.)
+	 * Matched against the explicit form number on the page (Form.-Nr.)
 	 */
-	public abstract readonly formType: FormType;
+	public abstract readonly formType: TMetadata["formType"];
 
 	/**
 	 * Display name for the form
 	 */
 	public abstract readonly name: string;
 
+	/**
+	 * Match a pattern against the raw page text and record where the value came from
+	 *
+	 * @param page - Layout-aware text model of the PDF page
+	 * @param pattern - Pattern with the value in a capture group
+	 * @param source - Pattern identifier, confidence and capture group
+	 * @returns Value with provenance, or null if the pattern does not match
+	 */
+	protected matchText(
+		page: PageLayout,
+		pattern: RegExp,
+		source: FieldSource,
+	): FieldMatch | null {
+		const group = source.group ?? 1;
+
+		// "d" flag provides the start/end indices of every capture group
+		const match = new RegExp(
+			pattern.source,
+			pattern.flags.replace(/[gd]/g, "") + "d",
+		).exec(page.rawText);
+		const value = match?.[group];
+		const range = match?.indices?.[group];
+		if (!match || !value || !range) {
+			return null;
+		}
+
+		return {
+			value,
+			provenance: {
+				patternId: `${this.formType}.${source.patternId}`,
+				snippet: match[0].trim(),
+				offset: range[0],
+				boundingBox: page.boundingBoxAt(range[0], value.length),
+				confidence: source.confidence,
+			},
+		};
+	}
+
+	/**
+	 * Find the payroll period of a page (see {@link PayrollPeriod.find}) and
+	 * record where it came from
+	 *
+	 * @param page - Layout-aware text model of the PDF page
+	 * @param source - Pattern identifier and confidence
+	 * @returns Period with provenance, or null if the page names no period
+	 */
+	protected matchPeriod(
+		page: PageLayout,
+		source: FieldSource,
+	): PeriodMatch | null {
+		const match = PayrollPeriod.find(page.rawText);
+		if (!match) {
+			return null;
+		}
+
+		return {
+			value: match.text,
+			period: match.period,
+			provenance: {
+				patternId: `${this.formType}.${source.patternId}`,
+				snippet: match.snippet,
+				offset: match.offset,
+				boundingBox: page.boundingBoxAt(match.offset, match.text.length),
+				confidence: source.confidence,
+			},
+		};
+	}
+
+	/**
+	 * Convert a layout lookup result into a value with provenance
+	 *
+	 * @param page - Layout-aware text model of the PDF page
+	 * @param match - Result of a layout lookup (e.g. locateValueRightOf)
+	 * @param source - Lookup identifier and confidence
+	 * @returns Value with provenance, or null if the lookup found nothing
+	 */
+	protected fromLayout(
+		page: PageLayout,
+		match: LayoutValueMatch | null,
+		source: FieldSource,
+	): FieldMatch | null {
+		if (!match) {
+			return null;
+		}
+
+		// Narrow the position down to the item holding the value, if there is one
+		const item = match.cell.items.find((i) => i.text.includes(match.value));
+		const itemOffset = item ? page.offsetOf(item) : null;
+		const { x, y, width, height } = item ?? match.cell;
+
+		return {
+			value: match.value,
+			provenance: {
+				patternId: `${this.formType}.${source.patternId}`,
+				snippet: match.cell.text,
+				offset:
+					item && itemOffset !== null
+						? itemOffset + item.text.indexOf(match.value)
+						: null,
+				boundingBox: { x, y, width, height },
+				confidence: source.confidence,
+			},
+		};
+	}
+
+	/**
+	 * Store the provenance of a field match and return its value
+	 *
+	 * @param provenance - Provenance map of the page being extracted
+	 * @param field - Field path (e.g. "netto", "deductions.lohnsteuer")
+	 * @param match - Field match or null if the field was not found
+	 * @returns Matched value or null
+	 */
+	protected record(
+		provenance: FieldProvenanceMap,
+		field: string,
+		match: FieldMatch | null,
+	): string | null {
+		if (!match) {
+			return null;
+		}
+		provenance[field] = match.provenance;
+		return match.value;
+	}
+
+	/**
+	 * Store the provenance of a period match and return the period
+	 *
+	 * @param provenance - Provenance map of the page being extracted
+	 * @param field - Field path (e.g. "period")
+	 * @param match - Period match or null if no period was found
+	 * @returns Period or null
+	 */
+	protected recordPeriod(
+		provenance: FieldProvenanceMap,
+		field: string,
+		match: PeriodMatch | null,
+	): PayrollPeriod | null {
+		if (!match) {
+			return null;
+		}
+		provenance[field] = match.provenance;
+		return match.period;
+	}
+
 	/**
 	 * Extract complete metadata from a PDF page
 	 *
 	 * This is the main method that each form type implements.
 	 * It should extract all relevant fields and return a typed metadata object.
+	 * The page layout provides positional queries as well as the raw text.
 	 *
-	 * @param text - Raw text content extracted from the PDF page
+	 * @param page - Layout-aware text model of the PDF page
 	 * @param pageIndex - Zero-based page index in the source PDF
-	 * @param rawText - Complete raw text (for storage in the result)
 	 * @returns Typed metadata object for this form type
 	 */
 	public abstract extractMetadata(
-		text: string,
+		page: PageLayout,
 		pageIndex: number,
-		rawText: string,
 	): TMetadata;
 
 	/**
@@ -3,12 +3,20 @@ import { LOGN17Form } from "./logn17-form.js";
 import { LOMS05Form } from "./loms05-form.js";
 import { UnknownForm } from "./unknown-form.js";
 
+import type { ExtractedPage } from "../../types.js";
+
 export { AbstractForm, LOGN17Form, LOMS05Form, UnknownForm };
+export type {
+	ClassificationSignal,
+	FieldMatch,
+	FieldSource,
+} from "./abstract-form.js";
+export type { LOGN17FormOptions } from "./logn17-form.js";
 
 /**
  * All available form handlers.
  */
-export const allFormHandlers: AbstractForm<any>[] = [
+export const allFormHandlers: AbstractForm<ExtractedPage>[] = [
 	new LOGN17Form(),
 	new LOMS05Form(),
 	new UnknownForm(),
@@ -1,6 +1,151 @@
 import { AbstractForm } from "./abstract-form.js";
+import { BankDirectory, validateIban } from "../../banking/index.js";
+import { Money } from "../../money.js";
+import { PAYROLL_PERIOD_PATTERN, PayrollPeriod } from "../../period.js";
 
-import type { LOGN17Page } from "../../types.js";
+import type {
+	ClassificationSignal,
+	FieldMatch,
+	FieldSource,
+	PeriodMatch,
+} from "./abstract-form.js";
+import type {
+	ExtractionWarning,
+	FieldProvenance,
+	FieldProvenanceMap,
+	LOGN17Address,
+	LOGN17Correction,
+	LOGN17Deductions,
+	LOGN17EmployeeData,
+	LOGN17LineItem,
+	LOGN17Page,
+	TextCell,
+} from "../../types.js";
+import type { LayoutValueMatch, PageLayout } from "../page-layout.js";
+
+/**
+ * German amount with optional thousand separators and trailing minus
+ */
+const AMOUNT = String.raw`(\d{1,3}(?:\.\d{3})*,\d{2}-?)`;
+
+/**
+ * Label alternatives for tax and social-security deductions
+ */
+const DEDUCTION_LABELS: Record<keyof LOGN17Deductions, string> = {
+	steuerBrutto: "Steuer-Brutto|Steuerbrutto",
+	lohnsteuer: "Lohnsteuer|LSt",
+	solidaritaetszuschlag: "Solidaritätszuschlag|Soli-Zuschlag|SolZ",
+	kirchensteuer: String.raw`Kirchensteuer(?:\s+(?:ev|rk|ak|lt|rf))?|KiSt`,
+	svBrutto: "SV-Brutto",
+	krankenversicherung: "Krankenversicherung|KV",
+	rentenversicherung: "Rentenversicherung|RV",
+	arbeitslosenversicherung: "Arbeitslosenversicherung|AV",
+	pflegeversicherung: "Pflegeversicherung|PV",
+};
+
+/**
+ * Label alternatives and value patterns of the employee master data
+ */
+const EMPLOYEE_DATA_FIELDS: Record<
+	keyof LOGN17EmployeeData,
+	{ label: string; value: string }
+> = {
+	taxClass: {
+		label: String.raw`Steuerklasse|St\.?-?Kl\.?|StKl`,
+		value: "[1-6]",
+	},
+	childAllowances: {
+		label: String.raw`Kinderfreibeträge|Kinderfreibetrag|Kinder-?frb\.?|KiFb|Kinderfreib\.`,
+		value: String.raw`\d{1,2}(?:,\d{1,2})?`,
+	},
+	denomination: {
+		label: String.raw`Konfession|Konf\.|Religion`,
+		value: "ev|rk|ak|lt|rf|fr|fs|fa|fb|fg|fm|ib|il|is|jd|jh|js|--?",
+	},
+	taxId: {
+		label: String.raw`Steuer-ID|Steuer-IdNr\.?|Steuerl\.\s?IdNr\.?|IdNr\.?|Identifikationsnummer`,
+		value: String.raw`\d{2}\s?\d{3}\s?\d{3}\s?\d{3}`,
+	},
+	socialSecurityNumber: {
+		label: String.raw`SV-Nummer|SV-Nr\.?|Versicherungsnummer|RV-Nummer|RV-Nr\.?`,
+		value: String.raw`\d{2}\s?\d{6}\s?[A-Z]\s?\d{3}`,
+	},
+	healthInsurance: {
+		label: String.raw`Krankenkasse|KK`,
+		value: String.raw`[A-ZÄÖÜ][\wÄÖÜäöüß.&-]*(?:\s[A-ZÄÖÜ][\wÄÖÜäöüß.&-]*){0,3}`,
+	},
+	personGroup: {
+		label: String.raw`Personengruppe|Pers\.?-?Gr\.?|PGR`,
+		value: String.raw`\d{3}`,
+	},
+	contributionGroup: {
+		label: String.raw`Beitragsgruppe|Beitr\.?-?Gr\.?|BGR`,
+		value: String.raw`\d\s?\d\s?\d\s?\d`,
+	},
+	birthDate: {
+		label: String.raw`Geburtsdatum|Geb\.?-?Dat(?:um|\.)?|geb\.(?:\s?am)?`,
+		value: String.raw`\d{2}\.\d{2}\.\d{4}`,
+	},
+	entryDate: {
+		label: String.raw`Eintrittsdatum|Eintritt|Eintr\.?-?Dat(?:um|\.)?`,
+		value: String.raw`\d{2}\.\d{2}\.\d{4}`,
+	},
+	exitDate: {
+		label: String.raw`Austrittsdatum|Austritt|Austr\.?-?Dat(?:um|\.)?`,
+		value: String.raw`\d{2}\.\d{2}\.\d{4}`,
+	},
+};
+
+/**
+ * Any master data label; header cells next to a label are often the next label
+ */
+const EMPLOYEE_DATA_LABEL = Object.values(EMPLOYEE_DATA_FIELDS)
+	.map(({ label }) => label)
+	.join("|");
+
+/**
+ * Common suffixes between a deduction label and its amount
+ */
+const DEDUCTION_SUFFIX = String.raw`(?:-?Beitrag|\s+AN-Anteil|\s+AN)?`;
+
+/**
+ * Build a pattern matching a deduction label followed by its amount
+ * Allows common suffixes such as "-Beitrag" or "AN-Anteil" between label and amount
+ */
+function deductionPattern(label: string): RegExp {
+	return new RegExp(
+		String.raw`(?<![A-Za-zÄÖÜäöüß/-])(?:${label})${DEDUCTION_SUFFIX}\s*:?\s+${AMOUNT}(?![\d,])`,
+	);
+}
+
+/**
+ * Build a pattern matching a deduction label at the start of a cell
+ */
+function deductionLabelPattern(label: string): RegExp {
+	return new RegExp(String.raw`^(?:${label})${DEDUCTION_SUFFIX}:?(?=\s|$)`);
+}
+
+/**
+ * Cells of the address window, top to bottom
+ */
+interface AddressBlock {
+	name: LayoutValueMatch | null;
+	careOf: LayoutValueMatch | null;
+	street: LayoutValueMatch;
+	houseNumber: LayoutValueMatch;
+	postalCode: LayoutValueMatch;
+	city: LayoutValueMatch;
+	/** Confidence of the street line (lower for streets without known suffix) */
+	streetConfidence: number;
+}
+
+export interface LOGN17FormOptions {
+	/**
+	 * Bank directory for BIC and bank name lookup.
+	 * Defaults to the bundled Bundesbank BLZ table.
+	 */
+	bankDirectory?: BankDirectory;
+}
 
 /**
  * LOGN17 Form - Individual Employee Salary Statement
@@ -10,13 +155,56 @@ export class LOGN17Form extends AbstractForm<LOGN17Page> {
 	public readonly formType = "LOGN17" as const;
 	public readonly name = "Lohnabrechnung";
 
+	// Headings and field labels of a salary statement
+	public readonly classificationSignals: ClassificationSignal[] = [
+		{
+			name: "heading",
+			pattern:
+				/Abrechnung der Brutto\/Netto-Bez(?:ü|ue)ge|Lohnabrechnung|Verdienstabrechnung|Gehaltsabrechnung/i,
+			weight: 3,
+		},
+		{ name: "bezuege", pattern: /Brutto-?Bez(?:ü|ue)ge/i, weight: 2 },
+		{ name: "nettoverdienst", pattern: /Netto-?verdienst/i, weight: 2 },
+		{ name: "steuerBrutto", pattern: /Steuer-?Brutto/i, weight: 1 },
+		{ name: "svBrutto", pattern: /SV-Brutto/i, weight: 1 },
+		{ name: "lohnsteuer", pattern: /Lohnsteuer/i, weight: 1 },
+		{
+			name: "payout",
+			pattern: /Auszahlungsbetrag|(?:Ü|Ue)berweisung/i,
+			weight: 1,
+		},
+		{
+			name: "personnelNumber",
+			pattern: /Pers\.-Nr\.|Personalnummer/i,
+			weight: 1,
+		},
+		{ name: "iban", pattern: /DE\d{2}(?:\s?\d{4}){4}\s?\d{2}/, weight: 1 },
+		// Company-wide summaries share the labels, but not the employee context
+		{
+			name: "companySummary",
+			pattern: /Lohnjournal|Buchungsliste|Zahlungsliste|Beitragsnachweis/i,
+			weight: -4,
+		},
+	];
+
+	private readonly customBankDirectory: BankDirectory | undefined;
+
 	// Extraction patterns encapsulated in the form class
 	private readonly patterns = {
 		personnel:
 			/(?:Personalnummer|Personal-Nr\.|Pers\.-Nr\.|PN)\s*:?\s*(\d{4,6})/i,
-		date: /(Januar|Februar|März|April|Mai|Juni|Juli|August|September|Oktober|November|Dezember)\s*(\d{4})/i,
 		// Name appears after Pers.-Nr. xxx* and a code, before street address
-		name: /Pers\.-Nr\.\s+\d+\*\s+\w+\s+([A-ZÄÖÜ][a-zäöüß]+(?:\s+[A-ZÄÖÜ][a-zäöüß]+)?)(?=\s+[A-ZÄÖÜ][a-zäöüß]+straße|$)/,
+		name: /Pers\.-Nr\.\s+\d+\*\s+\w+\s+([A-ZÄÖÜ][a-zäöüß]+(?:\s+[A-ZÄÖÜ][a-zäöüß]+)?)(?=\s+[A-ZÄÖÜ][a-zäöüß-]*(?:straße|strasse|str\.|weg|platz|allee)|$)/,
+		// Address window: "PLZ Ort", street and house number, optional c/o, name
+		postalCodeCity: /^(\d{5})\s+([A-ZÄÖÜ][^\d]*)$/,
+		street:
+			/^(.*?(?:straße|strasse|str\.))\s*(\d+\s?[a-z]?(?:\s?[-/]\s?\d+\s?[a-z]?)?)$/i,
+		streetFallback:
+			/^(.*?(?:weg|platz|allee|gasse|ring|damm|ufer|chaussee|markt))\s+(\d+\s?[a-z]?(?:\s?[-/]\s?\d+\s?[a-z]?)?)$/i,
+		streetGeneric:
+			/^([A-ZÄÖÜ][^\d]*?)\s+(\d+\s?[a-z]?(?:\s?[-/]\s?\d+\s?[a-z]?)?)$/,
+		careOf: /^c\/o\s+(.+)$/i,
+		recipient: /^(?:(?:Herrn?|Frau)\s+)?([A-ZÄÖÜ][^\d]*)$/,
 		// Brutto: amount after "Gehalt" line item
 		brutto: /Gehalt\s+[A-Z\s]+\s+(\d{1,3}(?:[.,]\d{3})*[.,]\d{2})/i,
 		// Netto: amount after IBAN and optional reference number
@@ -25,30 +213,144 @@ export class LOGN17Form extends AbstractForm<LOGN17Page> {
 		// IBAN: German IBAN (DE + 20 digits) - stops before any following number
 		iban: /(DE\d{2}(?:\s+\d{2,4}){5,6})(?=\s+\d)/,
 		pageBreak: /Personalnummer|LOGN17|Lohnabrechnung/i,
+		// Bezüge row: Lohnart, description, optional quantity/factor, St/SV/GB flags, amount
+		bezugRow:
+			/(?<![\d.,])(\d{3,4})\s+((?:[^\s\d]\S*)(?:\s+(?:[^\s\d]\S*|\d+%))*?)\s+(?:(\d{1,3}(?:\.\d{3})*,\d{2,4})\s+)?(?:(\d{1,3}(?:\.\d{3})*,\d{2,4})\s+)?([LSFP])\s+([LEFP])\s+([JN])\s+(\d{1,3}(?:\.\d{3})*,\d{2}-?)(?![\d,])/g,
+		// Netto-Be-/Abzüge row: Lohnart, description, signed amount (no flags)
+		abzugRow:
+			/(?<![\d.,])(\d{3,4})\s+((?:[^\s\d]\S*)(?:\s+(?:[^\s\d]\S*|\d+%))*?)\s+(\d{1,3}(?:\.\d{3})*,\d{2}-?)(?![\d,])/g,
+		// Section boundaries of the Netto-Be-/Abzüge table
+		abzugSectionStart: /Netto-?verdienst/i,
+		abzugSectionEnd: /Auszahlungsbetrag|(?:^|\s)Überweisung|DE\d{2}\s+\d/i,
+		// Payout amount label (value to the right of it)
+		payoutLabel: /Auszahlungsbetrag|Überweisungsbetrag/i,
+		// Correction run markers, optionally followed by the corrected period
+		correction: new RegExp(
+			String.raw`(?:Korrekturabrechnung|R(?:ü|ue)ckrechnung|Differenzabrechnung)(?![a-zäöüß])(?:\s+(?:f(?:ü|ue)r|vom|zu[mr]?))?\s*:?\s*(${PAYROLL_PERIOD_PATTERN.source})?`,
+			"i",
+		),
+		// Header of the "Differenz" column (difference to the original statement)
+		differenceColumn: /^Differenz(?:betrag)?$/i,
+		// Difference label with the amount to the right of it
+		differenceLabel: /^(?:Netto-?)?Differenz(?:betrag)?:?(?=\s|$)/i,
+		differenceText: new RegExp(
+			String.raw`(?:Netto-?)?Differenz(?:betrag)?\s*:?\s+${AMOUNT}(?![\d,])`,
+			"i",
+		),
+		amountValue: new RegExp(`^${AMOUNT}$`),
+	};
+
+	// Confidence of values found by the patterns and layout lookups above
+	private readonly confidence = {
+		personnel: 0.9,
+		period: 0.9,
+		name: 0.6, // Positional heuristic, breaks on unusual address lines
+		addressName: 0.8,
+		addressPostalCode: 0.85,
+		street: 0.85,
+		streetFallback: 0.75,
+		streetGeneric: 0.5, // Any words followed by a number
+		careOf: 0.8,
+		brutto: 0.7,
+		nettoPayoutLabel: 0.95,
+		nettoAfterIban: 0.6,
+		iban: 0.8,
+		validIban: 0.99, // Checksum rules out misread digits
+		invalidIban: 0.3,
+		deductionRightOf: 0.9,
+		deductionBelow: 0.75,
+		deductionText: 0.6,
+		employeeDataRightOf: 0.85,
+		employeeDataBelow: 0.75,
+		employeeDataText: 0.6,
+		bezugRow: 0.85,
+		abzugRow: 0.75,
+		correction: 0.8,
+		correctedPeriod: 0.85,
+		differenceColumn: 0.85,
+		differenceLabel: 0.8,
+		differenceText: 0.6,
 	};
 
-	public extractMetadata(
-		text: string,
-		pageIndex: number,
-		rawText: string,
-	): LOGN17Page {
+	public constructor(options: LOGN17FormOptions = {}) {
+		super();
+		this.customBankDirectory = options.bankDirectory;
+	}
+
+	public extractMetadata(page: PageLayout, pageIndex: number): LOGN17Page {
+		const text = page.rawText;
+		const warnings: ExtractionWarning[] = [];
+		const provenance: FieldProvenanceMap = {};
+
+		// Validate the IBAN and look up the bank only for valid IBANs
+		const iban = this.record(provenance, "iban", this.extractIBAN(page));
+		const ibanValidation = iban ? validateIban(iban) : null;
+		if (ibanValidation && provenance.iban) {
+			provenance.iban.confidence = ibanValidation.valid
+				? this.confidence.validIban
+				: this.confidence.invalidIban;
+		}
+		if (ibanValidation && !ibanValidation.valid) {
+			warnings.push({
+				code: "INVALID_IBAN",
+				message: `IBAN ${ibanValidation.iban} is invalid (${ibanValidation.error})`,
+				field: "iban",
+			});
+		}
+		const bank = ibanValidation?.valid
+			? this.bankDirectory.lookupIban(ibanValidation.iban)
+			: null;
+
+		const addressBlock = this.locateAddressBlock(page);
+		const brutto = this.record(provenance, "brutto", this.extractBrutto(page));
+		const netto = this.record(provenance, "netto", this.extractNetto(page));
+
 		return {
 			formType: this.formType,
 			pageIndex,
-			rawText,
+			rawText: text,
+			textSource: page.textSource,
 
 			// Identity fields
-			personnelNumber: this.extractPersonnelNumber(text),
-			employeeName: this.extractEmployeeName(text),
+			personnelNumber: this.record(
+				provenance,
+				"personnelNumber",
+				this.extractPersonnelNumber(page),
+			),
+			employeeName: this.record(
+				provenance,
+				"employeeName",
+				this.extractEmployeeName(page, addressBlock),
+			),
 
-			// Date fields (monthly)
-			year: this.extractYear(text),
-			month: this.extractMonth(text),
+			// Payroll period
+			period: this.recordPeriod(provenance, "period", this.extractPeriod(page)),
 
 			// Financial fields
-			brutto: this.extractBrutto(text),
-			netto: this.extractNetto(text),
-			iban: this.extractIBAN(text),
+			brutto: brutto ? Money.tryParseGerman(brutto) : null,
+			netto: netto ? Money.tryParseGerman(netto) : null,
+			iban,
+			deductions: this.extractDeductions(page, provenance),
+
+			// Employee master data
+			employee: this.extractEmployeeData(page, provenance),
+
+			// Bank data
+			ibanValid: ibanValidation?.valid ?? null,
+			bic: bank?.bic ?? null,
+			bankName: bank?.name || null,
+
+			// Wage-type line items
+			lineItems: this.extractLineItems(page, provenance),
+
+			// Correction run (Rückrechnung)
+			correction: this.extractCorrection(page, provenance),
+
+			// Postal address (address window)
+			address: this.extractAddress(page, addressBlock, provenance),
+
+			warnings,
+			provenance,
 
 			// Flags
 			isFirstPage: this.isFirstPage(text),
@@ -60,74 +362,535 @@ export class LOGN17Form extends AbstractForm<LOGN17Page> {
 		return this.patterns.pageBreak.test(text);
 	}
 
+	/**
+	 * Bank directory used for BIC lookup (loaded lazily)
+	 */
+	private get bankDirectory(): BankDirectory {
+		return this.customBankDirectory ?? BankDirectory.getDefault();
+	}
+
 	/**
 	 * Extract personnel number from text
 	 */
-	private extractPersonnelNumber(text: string): string | null {
-		const match = text.match(this.patterns.personnel);
-		return match && match[1] ? match[1] : null;
+	private extractPersonnelNumber(page: PageLayout): FieldMatch | null {
+		return this.matchText(page, this.patterns.personnel, {
+			patternId: "personnel",
+			confidence: this.confidence.personnel,
+		});
 	}
 
 	/**
-	 * Extract employee name from text
+	 * Extract employee name
+	 * Prefers the recipient of the address window, falls back to the name
+	 * following the personnel number in the raw text
 	 */
-	private extractEmployeeName(text: string): string | null {
-		const match = text.match(this.patterns.name);
-		return match && match[1] ? match[1] : null;
+	private extractEmployeeName(
+		page: PageLayout,
+		addressBlock: AddressBlock | null,
+	): FieldMatch | null {
+		return (
+			this.fromLayout(page, addressBlock?.name ?? null, {
+				patternId: "address.name",
+				confidence: this.confidence.addressName,
+			}) ??
+			this.matchText(page, this.patterns.name, {
+				patternId: "name",
+				confidence: this.confidence.name,
+			})
+		);
 	}
 
 	/**
-	 * Extract year from German date format
+	 * Extract the postal address from the address window
 	 */
-	private extractYear(text: string): string | null {
-		const match = text.match(this.patterns.date);
-		return match && match[2] ? match[2] : null;
+	private extractAddress(
+		page: PageLayout,
+		addressBlock: AddressBlock | null,
+		provenance: FieldProvenanceMap,
+	): LOGN17Address | null {
+		if (!addressBlock) {
+			return null;
+		}
+
+		const { name, careOf, street, houseNumber, postalCode, city } =
+			addressBlock;
+		const fields: Array<
+			[keyof LOGN17Address, LayoutValueMatch | null, number]
+		> = [
+			["name", name, this.confidence.addressName],
+			["careOf", careOf, this.confidence.careOf],
+			["street", street, addressBlock.streetConfidence],
+			["houseNumber", houseNumber, addressBlock.streetConfidence],
+			["postalCode", postalCode, this.confidence.addressPostalCode],
+			["city", city, this.confidence.addressPostalCode],
+		];
+		for (const [key, match, confidence] of fields) {
+			this.record(
+				provenance,
+				`address.${key}`,
+				this.fromLayout(page, match, {
+					patternId: `address.${key}`,
+					confidence,
+				}),
+			);
+		}
+
+		return {
+			name: name?.value ?? null,
+			careOf: careOf?.value ?? null,
+			street: street.value,
+			houseNumber: houseNumber.value,
+			postalCode: postalCode.value,
+			city: city.value,
+		};
 	}
 
 	/**
-	 * Extract month name from German date format
+	 * Find the address window: a "PLZ Ort" cell with a street cell directly above,
+	 * optionally preceded by a c/o line and the recipient name (same left edge)
 	 */
-	private extractMonth(text: string): string | null {
-		const match = text.match(this.patterns.date);
-		return match && match[1] ? match[1] : null;
+	private locateAddressBlock(page: PageLayout): AddressBlock | null {
+		for (const [index, line] of page.lines.entries()) {
+			const postalCell = line.cells.find((cell) =>
+				this.patterns.postalCodeCity.test(cell.text),
+			);
+			if (!postalCell) {
+				continue;
+			}
+
+			// Cells above the postal code line, aligned with it
+			const above = (distance: number): TextCell | null => {
+				const upper = page.lines[index - distance];
+				const lower = page.lines[index - distance + 1];
+				if (!upper || !lower || upper.y - lower.y > lower.height * 2.5) {
+					return null;
+				}
+				return (
+					upper.cells.find((cell) => Math.abs(cell.x - postalCell.x) <= 3) ??
+					null
+				);
+			};
+
+			const streetCell = above(1);
+			const street = streetCell ? this.matchStreet(streetCell) : null;
+			if (!streetCell || !street) {
+				continue;
+			}
+
+			const careOfCell = above(2);
+			const careOf = careOfCell
+				? this.patterns.careOf.exec(careOfCell.text)
+				: null;
+			const nameCell = careOf ? above(3) : careOfCell;
+			const name = nameCell
+				? this.patterns.recipient.exec(nameCell.text)
+				: null;
+			const postal = this.patterns.postalCodeCity.exec(postalCell.text)!;
+
+			return {
+				name: nameCell && name ? { value: name[1]!, cell: nameCell } : null,
+				careOf:
+					careOfCell && careOf ? { value: careOf[1]!, cell: careOfCell } : null,
+				street: { value: street.match[1]!.trim(), cell: streetCell },
+				houseNumber: { value: street.match[2]!, cell: streetCell },
+				postalCode: { value: postal[1]!, cell: postalCell },
+				city: { value: postal[2]!.trim(), cell: postalCell },
+				streetConfidence: street.confidence,
+			};
+		}
+
+		return null;
 	}
 
 	/**
-	 * Extract Bruttolohn (gross salary)
-	 * Handles German number format with dots and commas
+	 * Match a street line ("Musterstraße 12a")
+	 * Streets ending in "straße" are preferred over other suffixes (weg, platz,
+	 * allee, ...) and over any words followed by a house number.
 	 */
-	private extractBrutto(text: string): string | null {
-		const match = text.match(this.patterns.brutto);
-		if (!match || !match[1]) return null;
+	private matchStreet(
+		cell: TextCell,
+	): { match: RegExpExecArray; confidence: number } | null {
+		const candidates = [
+			[this.patterns.street, this.confidence.street],
+			[this.patterns.streetFallback, this.confidence.streetFallback],
+			[this.patterns.streetGeneric, this.confidence.streetGeneric],
+		] as const;
 
-		// Convert German format to standard decimal:
-		// 1.234,56 -> 1234.56
-		return match[1]
-			.replace(/\./g, "") // Remove thousand separators
-			.replace(",", "."); // Replace decimal comma with dot
+		for (const [pattern, confidence] of candidates) {
+			const match = pattern.exec(cell.text);
+			if (match) {
+				return { match, confidence };
+			}
+		}
+		return null;
 	}
 
 	/**
-	 * Extract Nettolohn (net salary)
+	 * Extract the payroll period ("Oktober 2025", "Abrechnungsmonat 10/2025", ...)
+	 */
+	private extractPeriod(page: PageLayout): PeriodMatch | null {
+		return this.matchPeriod(page, {
+			patternId: "period",
+			confidence: this.confidence.period,
+		});
+	}
+
+	/**
+	 * Extract Bruttolohn (gross salary)
 	 * Handles German number format with dots and commas
 	 */
-	private extractNetto(text: string): string | null {
-		const match = text.match(this.patterns.netto);
-		if (!match || !match[1]) return null;
+	private extractBrutto(page: PageLayout): FieldMatch | null {
+		return this.matchText(page, this.patterns.brutto, {
+			patternId: "brutto",
+			confidence: this.confidence.brutto,
+		});
+	}
 
-		// Convert German format to standard decimal
-		return match[1].replace(/\./g, "").replace(",", ".");
+	/**
+	 * Extract Nettolohn (net salary)
+	 * Prefers the value to the right of the payout label, falls back to the
+	 * amount following the IBAN in the raw text
+	 */
+	private extractNetto(page: PageLayout): FieldMatch | null {
+		return (
+			this.fromLayout(
+				page,
+				page.locateValueRightOf(
+					this.patterns.payoutLabel,
+					this.patterns.amountValue,
+				),
+				{
+					patternId: "netto.payoutLabel",
+					confidence: this.confidence.nettoPayoutLabel,
+				},
+			) ??
+			this.matchText(page, this.patterns.netto, {
+				patternId: "netto.afterIban",
+				confidence: this.confidence.nettoAfterIban,
+			})
+		);
 	}
 
 	/**
 	 * Extract IBAN (International Bank Account Number)
 	 * Removes spaces for consistency
 	 */
-	private extractIBAN(text: string): string | null {
-		const match = text.match(this.patterns.iban);
-		if (!match || !match[1]) return null;
+	private extractIBAN(page: PageLayout): FieldMatch | null {
+		const match = this.matchText(page, this.patterns.iban, {
+			patternId: "iban",
+			confidence: this.confidence.iban,
+		});
+		if (!match) return null;
 
 		// Remove all spaces for clean IBAN
-		return match[1].replace(/\s/g, "");
+		return { ...match, value: match.value.replace(/\s/g, "") };
+	}
+
+	/**
+	 * Extract tax and social-security deductions (employee shares)
+	 * Looks for the amount next to or below the label in the page layout
+	 * first, then for "label amount" in the raw text
+	 */
+	private extractDeductions(
+		page: PageLayout,
+		provenance: FieldProvenanceMap,
+	): LOGN17Deductions {
+		const deductions: Partial<LOGN17Deductions> = {};
+
+		for (const key of Object.keys(DEDUCTION_LABELS) as Array<
+			keyof LOGN17Deductions
+		>) {
+			const labels = DEDUCTION_LABELS[key];
+			const labelPattern = deductionLabelPattern(labels);
+			const match =
+				this.fromLayout(
+					page,
+					page.locateValueRightOf(labelPattern, this.patterns.amountValue),
+					{
+						patternId: `deductions.${key}.rightOf`,
+						confidence: this.confidence.deductionRightOf,
+					},
+				) ??
+				this.fromLayout(
+					page,
+					page.locateValueBelow(labelPattern, this.patterns.amountValue),
+					{
+						patternId: `deductions.${key}.below`,
+						confidence: this.confidence.deductionBelow,
+					},
+				) ??
+				this.matchText(page, deductionPattern(labels), {
+					patternId: `deductions.${key}.text`,
+					confidence: this.confidence.deductionText,
+				});
+
+			const value = this.record(provenance, `deductions.${key}`, match);
+			deductions[key] = value ? Money.tryParseGerman(value) : null;
+		}
+
+		// Every key of DEDUCTION_LABELS has been assigned above
+		return deductions as LOGN17Deductions;
+	}
+
+	/**
+	 * Extract employee master data from the statement header
+	 * Looks for the value next to or below the label in the page layout
+	 * first, then for "label value" in the raw text
+	 */
+	private extractEmployeeData(
+		page: PageLayout,
+		provenance: FieldProvenanceMap,
+	): LOGN17EmployeeData {
+		const employee: Partial<LOGN17EmployeeData> = {};
+
+		for (const key of Object.keys(EMPLOYEE_DATA_FIELDS) as Array<
+			keyof LOGN17EmployeeData
+		>) {
+			const { label, value } = EMPLOYEE_DATA_FIELDS[key];
+			const labelPattern = new RegExp(String.raw`^(?:${label}):?(?=\s|$)`);
+			const valuePattern = new RegExp(
+				String.raw`^(?!(?:${EMPLOYEE_DATA_LABEL}):?(?:\s|$))(${value})$`,
+			);
+			const match =
+				this.fromLayout(
+					page,
+					page.locateValueRightOf(labelPattern, valuePattern),
+					{
+						patternId: `employee.${key}.rightOf`,
+						confidence: this.confidence.employeeDataRightOf,
+					},
+				) ??
+				this.fromLayout(
+					page,
+					page.locateValueBelow(labelPattern, valuePattern),
+					{
+						patternId: `employee.${key}.below`,
+						confidence: this.confidence.employeeDataBelow,
+					},
+				) ??
+				this.matchText(
+					page,
+					new RegExp(
+						String.raw`(?<![A-Za-zÄÖÜäöüß.-])(?:${label})\s*:?\s+(${value})(?![\wÄÖÜäöüß])`,
+					),
+					{
+						patternId: `employee.${key}.text`,
+						confidence: this.confidence.employeeDataText,
+					},
+				);
+
+			const found = this.record(provenance, `employee.${key}`, match);
+			employee[key] = found ? this.normalizeEmployeeData(key, found) : null;
+		}
+
+		// Every key of EMPLOYEE_DATA_FIELDS has been assigned above
+		return employee as LOGN17EmployeeData;
+	}
+
+	/**
+	 * Normalize a master data value: dates to YYYY-MM-DD, numbers without
+	 * spaces, child allowances as decimal string
+	 */
+	private normalizeEmployeeData(
+		key: keyof LOGN17EmployeeData,
+		value: string,
+	): string {
+		switch (key) {
+			case "birthDate":
+			case "entryDate":
+			case "exitDate": {
+				const [day, month, year] = value.split(".");
+				return `${year}-${month}-${day}`;
+			}
+			case "childAllowances":
+				return this.parseGermanNumber(value);
+			case "taxId":
+			case "socialSecurityNumber":
+			case "contributionGroup":
+				return value.replace(/\s/g, "");
+			default:
+				return value.trim();
+		}
+	}
+
+	/**
+	 * Extract wage-type (Lohnart) rows from the Bezüge and Netto-Be-/Abzüge tables
+	 * Bezüge rows are identified by their St/SV/GB flags, Abzüge rows by their
+	 * position between "Netto-Verdienst" and the payout line.
+	 */
+	private extractLineItems(
+		page: PageLayout,
+		provenance: FieldProvenanceMap,
+	): LOGN17LineItem[] {
+		const text = page.rawText;
+		const items: LOGN17LineItem[] = [];
+
+		for (const match of text.matchAll(this.patterns.bezugRow)) {
+			provenance[`lineItems.${items.length}`] = this.rowProvenance(
+				page,
+				{ text: match[0], offset: match.index },
+				{ patternId: "bezugRow", confidence: this.confidence.bezugRow },
+			);
+			items.push({
+				kind: "bezug",
+				wageType: match[1]!,
+				description: match[2]!.trim(),
+				quantity: match[3] ? this.parseGermanNumber(match[3]) : null,
+				factor: match[4] ? this.parseGermanNumber(match[4]) : null,
+				amount: Money.parseGerman(match[8]!),
+				taxFlag: match[5] ?? null,
+				socialSecurityFlag: match[6] ?? null,
+				includedInGross: match[7] === "J",
+			});
+		}
+
+		// Netto-Be-/Abzüge are only searched within their own section
+		const start = text.search(this.patterns.abzugSectionStart);
+		if (start === -1) {
+			return items;
+		}
+
+		const section = text.slice(start);
+		const end = section.search(this.patterns.abzugSectionEnd);
+		const abzugText = end === -1 ? section : section.slice(0, end);
+
+		for (const match of abzugText.matchAll(this.patterns.abzugRow)) {
+			provenance[`lineItems.${items.length}`] = this.rowProvenance(
+				page,
+				{ text: match[0], offset: start + match.index },
+				{ patternId: "abzugRow", confidence: this.confidence.abzugRow },
+			);
+			items.push({
+				kind: "abzug",
+				wageType: match[1]!,
+				description: match[2]!.trim(),
+				quantity: null,
+				factor: null,
+				amount: Money.parseGerman(match[3]!),
+				taxFlag: null,
+				socialSecurityFlag: null,
+				includedInGross: null,
+			});
+		}
+
+		return items;
+	}
+
+	/**
+	 * Detect a correction run (Korrekturabrechnung / Rückrechnung) of an earlier period
+	 * Reports the corrected period and the difference to the original payout, which
+	 * is taken from the "Differenz" column of the payout row, a "Differenz" label or
+	 * the raw text.
+	 */
+	private extractCorrection(
+		page: PageLayout,
+		provenance: FieldProvenanceMap,
+	): LOGN17Correction | null {
+		const marker = this.matchText(page, this.patterns.correction, {
+			patternId: "correction",
+			confidence: this.confidence.correction,
+			group: 0,
+		});
+		if (!this.record(provenance, "correction", marker)) {
+			return null;
+		}
+
+		const explicitPeriod = this.record(
+			provenance,
+			"correction.correctedPeriod",
+			this.matchText(page, this.patterns.correction, {
+				patternId: "correction.correctedPeriod",
+				confidence: this.confidence.correctedPeriod,
+			}),
+		);
+
+		const difference = this.record(
+			provenance,
+			"correction.nettoDifference",
+			this.fromLayout(page, this.locateDifferenceColumn(page), {
+				patternId: "correction.differenceColumn",
+				confidence: this.confidence.differenceColumn,
+			}) ??
+				this.fromLayout(
+					page,
+					page.locateValueRightOf(
+						this.patterns.differenceLabel,
+						this.patterns.amountValue,
+					),
+					{
+						patternId: "correction.differenceLabel",
+						confidence: this.confidence.differenceLabel,
+					},
+				) ??
+				this.matchText(page, this.patterns.differenceText, {
+					patternId: "correction.differenceText",
+					confidence: this.confidence.differenceText,
+				}),
+		);
+
+		// Without an explicit period, the statement itself names the corrected period
+		const correctedPeriod =
+			(explicitPeriod ? PayrollPeriod.tryParse(explicitPeriod) : null) ??
+			this.extractPeriod(page)?.period ??
+			null;
+
+		return {
+			correctedPeriod,
+			nettoDifference: difference ? Money.tryParseGerman(difference) : null,
+		};
+	}
+
+	/**
+	 * Find the amount in the "Differenz" column of the payout row
+	 */
+	private locateDifferenceColumn(page: PageLayout): LayoutValueMatch | null {
+		const header = page.lines
+			.flatMap((line) => line.cells)
+			.find((cell) => this.patterns.differenceColumn.test(cell.text));
+		const payoutLine = page.findLine(this.patterns.payoutLabel);
+		if (!header || !payoutLine) {
+			return null;
+		}
+
+		for (const cell of payoutLine.cells) {
+			const overlaps =
+				cell.x < header.x + header.width && cell.x + cell.width > header.x;
+			const value = this.patterns.amountValue.exec(cell.text)?.[1];
+			if (overlaps && value) {
+				return { value, cell };
+			}
+		}
+
+		return null;
+	}
+
+	/**
+	 * Build the provenance of a table row matched in the raw text
+	 */
+	private rowProvenance(
+		page: PageLayout,
+		row: { text: string; offset: number },
+		source: FieldSource,
+	): FieldProvenance {
+		return {
+			patternId: `${this.formType}.${source.patternId}`,
+			snippet: row.text,
+			offset: row.offset,
+			boundingBox: page.boundingBoxAt(row.offset, row.text.length),
+			confidence: source.confidence,
+		};
+	}
+
+	/**
+	 * Convert a German formatted quantity or factor to a decimal string
+	 * Handles thousand separators and trailing minus: 1.234,56- -> -1234.56
+	 */
+	private parseGermanNumber(value: string): string {
+		const negative = value.endsWith("-");
+		const normalized = value
+			.replace(/-$/, "")
+			.replace(/\./g, "")
+			.replace(",", ".");
+		return negative ? `-${normalized}` : normalized;
 	}
 }
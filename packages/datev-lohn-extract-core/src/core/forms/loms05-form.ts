@@ -1,6 +1,12 @@
 import { AbstractForm } from "./abstract-form.js";
 
-import type { LOMS05Page } from "../../types.js";
+import type {
+	ClassificationSignal,
+	FieldMatch,
+	PeriodMatch,
+} from "./abstract-form.js";
+import type { FieldProvenanceMap, LOMS05Page } from "../../types.js";
+import type { PageLayout } from "../page-layout.js";
 
 /**
  * LOMS05 Form - Social Security Notification (Meldebescheinigung zur Sozialversicherung)
@@ -10,31 +16,57 @@ export class LOMS05Form extends AbstractForm<LOMS05Page> {
 	public readonly formType = "LOMS05" as const;
 	public readonly name = "Meldebescheinigung zur Sozialversicherung";
 
-	// Minimal extraction patterns - only personnel number and date
+	// Headings and field labels of a social security notification
+	public readonly classificationSignals: ClassificationSignal[] = [
+		{ name: "heading", pattern: /Meldebescheinigung/i, weight: 3 },
+		{ name: "sozialversicherung", pattern: /Sozialversicherung/i, weight: 2 },
+		{ name: "meldegrund", pattern: /Grund der Abgabe|Meldegrund/i, weight: 2 },
+		{ name: "versicherungsnummer", pattern: /Versicherungsnummer/i, weight: 1 },
+		{ name: "betriebsnummer", pattern: /Betriebsnummer/i, weight: 1 },
+		{ name: "beitragsgruppe", pattern: /Beitragsgruppe/i, weight: 1 },
+		{
+			name: "personnelNumber",
+			pattern: /Pers\.-Nr\.|Personalnummer/i,
+			weight: 1,
+		},
+	];
+
+	// Minimal extraction patterns - only personnel number (and the period, see PayrollPeriod.find)
 	private readonly patterns = {
 		personnel:
 			/(?:Personalnummer|Personal-Nr\.|Pers\.-Nr\.|PN)\s*:?\s*(\d{4,6})/i,
-		date: /(Januar|Februar|März|April|Mai|Juni|Juli|August|September|Oktober|November|Dezember)\s*(\d{4})/i,
 		pageBreak: /Meldebescheinigung|LOMS05|Sozialversicherung/i,
 	};
 
-	public extractMetadata(
-		text: string,
-		pageIndex: number,
-		rawText: string,
-	): LOMS05Page {
+	// Confidence of values found by the patterns above
+	private readonly confidence = {
+		personnel: 0.9,
+		period: 0.9,
+	};
+
+	public extractMetadata(page: PageLayout, pageIndex: number): LOMS05Page {
+		const text = page.rawText;
+		const provenance: FieldProvenanceMap = {};
+
 		return {
 			formType: this.formType,
 			pageIndex,
-			rawText,
+			rawText: text,
+			textSource: page.textSource,
 
 			// Minimal identity extraction - only Pers.-Nr. matters
-			personnelNumber: this.extractPersonnelNumber(text),
+			personnelNumber: this.record(
+				provenance,
+				"personnelNumber",
+				this.extractPersonnelNumber(page),
+			),
 			employeeName: null, // Not extracted from this form
 
-			// Date (monthly)
-			year: this.extractYear(text),
-			month: this.extractMonth(text),
+			// Payroll period
+			period: this.recordPeriod(provenance, "period", this.extractPeriod(page)),
+
+			warnings: [],
+			provenance,
 
 			// Flags
 			isFirstPage: this.isFirstPage(text),
@@ -49,24 +81,20 @@ export class LOMS05Form extends AbstractForm<LOMS05Page> {
 	/**
 	 * Extract personnel number from text
 	 */
-	private extractPersonnelNumber(text: string): string | null {
-		const match = text.match(this.patterns.personnel);
-		return match && match[1] ? match[1] : null;
-	}
-
-	/**
-	 * Extract year from German date format
-	 */
-	private extractYear(text: string): string | null {
-		const match = text.match(this.patterns.date);
-		return match && match[2] ? match[2] : null;
+	private extractPersonnelNumber(page: PageLayout): FieldMatch | null {
+		return this.matchText(page, this.patterns.personnel, {
+			patternId: "personnel",
+			confidence: this.confidence.personnel,
+		});
 	}
 
 	/**
-	 * Extract month name from German date format
+	 * Extract the payroll period ("Oktober 2025", "10/2025", ...)
 	 */
-	private extractMonth(text: string): string | null {
-		const match = text.match(this.patterns.date);
-		return match && match[1] ? match[1] : null;
+	private extractPeriod(page: PageLayout): PeriodMatch | null {
+		return this.matchPeriod(page, {
+			patternId: "period",
+			confidence: this.confidence.period,
+		});
 	}
 }
@@ -1,6 +1,8 @@
 import { AbstractForm } from "./abstract-form.js";
 
-import type { UnknownPage } from "../../types.js";
+import type { PeriodMatch } from "./abstract-form.js";
+import type { FieldProvenanceMap, UnknownPage } from "../../types.js";
+import type { PageLayout } from "../page-layout.js";
 
 /**
  * Unknown Form - Fallback handler for unrecognized form types
@@ -13,18 +15,16 @@ export class UnknownForm extends AbstractForm<UnknownPage> {
 	// Patterns for extraction
 	private readonly FORM_NUMBER_PATTERN =
 		/(?:Form\.-Nr\.|Formular-Nr\.|F\.-Nr\.)\s*:?\s*([A-Z0-9]+)/i;
-	private readonly DATE_PATTERN =
-		/(Januar|Februar|März|April|Mai|Juni|Juli|August|September|Oktober|November|Dezember)\s*(\d{4})/i;
 
-	public extractMetadata(
-		text: string,
-		pageIndex: number,
-		rawText: string,
-	): UnknownPage {
+	public extractMetadata(page: PageLayout, pageIndex: number): UnknownPage {
+		const text = page.rawText;
+		const provenance: FieldProvenanceMap = {};
+
 		return {
 			formType: this.formType,
 			pageIndex,
-			rawText,
+			rawText: text,
+			textSource: page.textSource,
 
 			// Try to extract the form code if present
 			detectedFormCode: this.extractFormCode(text),
@@ -33,9 +33,11 @@ export class UnknownForm extends AbstractForm<UnknownPage> {
 			personnelNumber: null,
 			employeeName: null,
 
-			// Extract date for grouping purposes
-			year: this.extractYear(text),
-			month: this.extractMonth(text),
+			// Extract the period for grouping purposes
+			period: this.recordPeriod(provenance, "period", this.extractPeriod(page)),
+
+			warnings: [],
+			provenance,
 
 			// Flags
 			isFirstPage: true, // Assume first page since we can't determine
@@ -60,32 +62,14 @@ export class UnknownForm extends AbstractForm<UnknownPage> {
 	}
 
 	/**
-	 * Extract year from date in text (only recent years to avoid footnotes)
-	 */
-	private extractYear(text: string): string | null {
-		const dateMatch = text.match(this.DATE_PATTERN);
-		if (dateMatch && dateMatch[2]) {
-			const year = parseInt(dateMatch[2], 10);
-			// Only accept years >= 2020 to filter out historical references in footnotes
-			if (year >= 2020) {
-				return dateMatch[2];
-			}
-		}
-		return null;
-	}
-
-	/**
-	 * Extract month name from date in text (only recent years to avoid footnotes)
+	 * Extract the payroll period from the text (only recent years to avoid footnotes)
 	 */
-	private extractMonth(text: string): string | null {
-		const dateMatch = text.match(this.DATE_PATTERN);
-		if (dateMatch && dateMatch[2]) {
-			const year = parseInt(dateMatch[2], 10);
-			// Only accept years >= 2020 to filter out historical references in footnotes
-			if (year >= 2020 && dateMatch[1]) {
-				return dateMatch[1];
-			}
-		}
-		return null;
+	private extractPeriod(page: PageLayout): PeriodMatch | null {
+		const match = this.matchPeriod(page, {
+			patternId: "period",
+			confidence: 0.7,
+		});
+		// Only accept years >= 2020 to filter out historical references in footnotes
+		return match && match.period.year >= 2020 ? match : null;
 	}
 }
@@ -1,2 +1,5 @@
 export * from "./form-detector.js";
+export * from "./form-registry.js";
+export * from "./forms/index.js";
 export * from "./page-extractor.js";
+export * from "./page-layout.js";
@@ -1,32 +1,185 @@
 import * as pdfjsLib from "pdfjs-dist/legacy/build/pdf.mjs";
 import { pino } from "pino";
 
-import { ExtractionError, ValidationError } from "../errors.js";
-import { FormDetector } from "./form-detector.js";
+import {
+	ExtractionAbortedError,
+	ExtractionError,
+	IncorrectPasswordError,
+	PasswordRequiredError,
+	ValidationError,
+} from "../errors.js";
+import { ExtractionWorkerPool } from "./extraction-worker-pool.js";
+import { FormRegistry } from "./form-registry.js";
+import { PageLayout } from "./page-layout.js";
 
-import type { ExtractedPage } from "../types.js";
+import type { AbstractOcrEngine } from "../ocr/index.js";
+import type { Redactor } from "../redaction/index.js";
+import type {
+	BasePage,
+	ExtractedPage,
+	FieldProvenance,
+	PositionedTextItem,
+} from "../types.js";
+import type { FormClassification } from "./form-registry.js";
 import type { Logger } from "pino";
 
-export interface PageExtractorOptions {
+export interface PageExtractorOptions<TPage extends BasePage = ExtractedPage> {
 	/**
 	 * Optional logger instance. If not provided, a silent logger is used.
 	 */
 	logger?: Logger;
+
+	/**
+	 * Form handlers used for detection and extraction.
+	 * Defaults to a registry with the built-in handlers; required for page
+	 * types not covering the built-in ones (see {@link PageExtractorArgs}).
+	 */
+	formRegistry?: FormRegistry<TPage>;
+
+	/**
+	 * Number of worker threads extracting page ranges in parallel.
+	 * Defaults to 0 (sequential extraction on the calling thread).
+	 * Workers use the built-in form handlers and cannot be combined with a
+	 * custom form registry.
+	 */
+	workers?: number;
+
+	/**
+	 * OCR fallback for pages without a usable text layer (scans).
+	 * Disabled by default; cannot be combined with worker threads.
+	 */
+	ocr?: PageOcrOptions;
+
+	/**
+	 * Redact the raw text, provenance snippets and warning messages of every
+	 * extracted page. Typed fields are extracted before redaction and kept.
+	 */
+	redactor?: Redactor;
+}
+
+/**
+ * Constructor arguments of a PageExtractor (or a class forwarding its options)
+ * The default registry produces the built-in page types only, so page types
+ * not covering all of them require the form registry producing them.
+ */
+export type PageExtractorArgs<
+	TPage extends BasePage,
+	TOptions extends PageExtractorOptions<TPage> = PageExtractorOptions<TPage>,
+> = ExtractedPage extends TPage
+	? [options?: TOptions]
+	: [options: TOptions & { formRegistry: FormRegistry<TPage> }];
+
+/**
+ * Options of the OCR fallback
+ */
+export interface PageOcrOptions {
+	/**
+	 * OCR engine, e.g. TesseractOcrEngine
+	 */
+	engine: AbstractOcrEngine;
+
+	/**
+	 * Pages whose text layer has fewer characters (without whitespace) are
+	 * recognized by OCR. Defaults to 20.
+	 */
+	minTextLength?: number;
+
+	/**
+	 * Resolution of the rendered page image. Defaults to 300 dpi.
+	 */
+	dpi?: number;
+}
+
+/**
+ * Range of zero-based page indexes (end exclusive)
+ */
+export interface PageRange {
+	start: number;
+	end: number;
+}
+
+/**
+ * Progress of a running page extraction
+ */
+export interface ExtractionProgress {
+	/** Number of pages extracted so far */
+	completed: number;
+	/** Total number of pages to extract */
+	total: number;
+	/** Zero-based index of the page extracted last */
+	pageIndex: number;
+}
+
+/**
+ * Options for a single extraction run
+ */
+export interface ExtractPagesOptions {
+	/**
+	 * Signal to abort the extraction.
+	 * Stops pending pdf.js work and releases the document.
+	 */
+	signal?: AbortSignal;
+
+	/**
+	 * Called after every extracted page (page n of m)
+	 */
+	onProgress?: (progress: ExtractionProgress) => void;
+
+	/**
+	 * Pages to extract. Defaults to all pages; clamped to the page count.
+	 */
+	pageRange?: Partial<PageRange>;
+
+	/**
+	 * User password of an encrypted PDF
+	 */
+	password?: string;
 }
 
 /**
  * Page extractor - extraction using form class delegation
  * Orchestrates detection and delegates extraction to form-specific classes
+ *
+ * @template TPage - Page types produced by the form registry
  */
-export class PageExtractor {
+export class PageExtractor<TPage extends BasePage = ExtractedPage> {
 	private readonly logger: Logger;
+	private readonly formRegistry: FormRegistry<TPage>;
+	private readonly workerPool: ExtractionWorkerPool<TPage> | null;
+	private readonly ocr: PageOcrOptions | null;
+	private readonly redactor: Redactor | null;
 
-	public constructor(options: PageExtractorOptions = {}) {
+	/**
+	 * @throws {ValidationError} If workers are combined with a custom form registry or OCR
+	 */
+	public constructor(...[options = {}]: PageExtractorArgs<TPage>) {
 		// If a logger instance is provided, use it with a child logger
 		// Otherwise, use a silent logger
 		this.logger =
 			options.logger?.child({ name: "PageExtractor" }) ??
 			pino({ level: "silent" });
+
+		// PageExtractorArgs ensures TPage covers the built-in page types when no
+		// registry is given
+		this.formRegistry =
+			options.formRegistry ??
+			(FormRegistry.createDefault() as FormRegistry<TPage>);
+
+		// Form handlers cannot be transferred to worker threads
+		const workers = options.workers ?? 0;
+		if (workers > 0 && options.formRegistry) {
+			throw new ValidationError(
+				"Worker threads only support the built-in form handlers, not a custom form registry",
+			);
+		}
+		if (workers > 0 && options.ocr) {
+			throw new ValidationError(
+				"Worker threads cannot be combined with the OCR fallback",
+			);
+		}
+		this.workerPool = workers > 0 ? new ExtractionWorkerPool(workers) : null;
+		this.ocr = options.ocr ?? null;
+		this.redactor = options.redactor ?? null;
 	}
 
 	/**
@@ -34,13 +187,55 @@ export class PageExtractor {
 	 * Returns classified pages with form-specific metadata, no side effects
 	 *
 	 * @param pdfBuffer - PDF file as Buffer
+	 * @param options - Abort signal and progress callback
 	 * @returns Array of extracted pages with typed metadata
 	 * @throws {ValidationError} If PDF buffer is invalid
+	 * @throws {PasswordRequiredError} If the PDF is encrypted and no password was given
+	 * @throws {IncorrectPasswordError} If the password is incorrect
+	 * @throws {ExtractionError} If PDF loading or extraction fails
+	 * @throws {ExtractionAbortedError} If the extraction was aborted
+	 */
+	public async extractPages(
+		pdfBuffer: Buffer,
+		options: ExtractPagesOptions = {},
+	): Promise<TPage[]> {
+		const extractedPages: TPage[] = [];
+		for await (const page of this.extractPagesIterable(pdfBuffer, options)) {
+			extractedPages.push(page);
+		}
+		return extractedPages;
+	}
+
+	/**
+	 * Extract pages from a PDF buffer one by one
+	 * Yields every page as soon as it is parsed. The pdf.js document is
+	 * destroyed when the iteration completes, fails, is aborted or stopped early.
+	 *
+	 * @example
+	 * ```typescript
+	 * for await (const page of extractor.extractPagesIterable(pdfBuffer, { signal })) {
+	 *   console.log(page.pageIndex, page.formType);
+	 * }
+	 * ```
+	 *
+	 * @param pdfBuffer - PDF file as Buffer
+	 * @param options - Abort signal and progress callback
+	 * @returns Async iterator of extracted pages in page order
+	 * @throws {ValidationError} If PDF buffer is invalid
+	 * @throws {PasswordRequiredError} If the PDF is encrypted and no password was given
+	 * @throws {IncorrectPasswordError} If the password is incorrect
 	 * @throws {ExtractionError} If PDF loading or extraction fails
+	 * @throws {ExtractionAbortedError} If the extraction was aborted
 	 */
-	public async extractPages(pdfBuffer: Buffer): Promise<ExtractedPage[]> {
+	public async *extractPagesIterable(
+		pdfBuffer: Buffer,
+		options: ExtractPagesOptions = {},
+	): AsyncGenerator<TPage, void, undefined> {
+		const { signal, onProgress } = options;
+
 		// Validate input
 		this.validatePdfBuffer(pdfBuffer);
+		this.throwIfAborted(signal);
 
 		// Load PDF with pdf.js for text extraction
 		const data = new Uint8Array(pdfBuffer);
@@ -49,53 +244,121 @@ export class PageExtractor {
 			useWorkerFetch: false,
 			isEvalSupported: false,
 			useSystemFonts: true,
+			password: options.password,
 		});
 
-		let pdfDoc;
-		try {
-			pdfDoc = await loadingTask.promise;
-		} catch (error) {
-			const message = error instanceof Error ? error.message : "Unknown error";
-			throw new ExtractionError(`Failed to load PDF: ${message}`);
-		}
-
-		const numPages = pdfDoc.numPages;
-
-		this.logger.info(`Extracted %d page(s) from PDF`, numPages);
-
-		const extractedPages: ExtractedPage[] = [];
+		// Destroying the loading task stops pending pdf.js work on abort
+		const onAbort = (): void => {
+			loadingTask.destroy().catch((error: unknown) => {
+				this.logger.warn({ error }, "Failed to destroy aborted PDF document");
+			});
+		};
+		signal?.addEventListener("abort", onAbort, { once: true });
 
-		// Process each page
-		for (let pageNum = 1; pageNum <= numPages; pageNum++) {
+		try {
+			let pdfDoc;
 			try {
-				const page = await pdfDoc.getPage(pageNum);
-				const extractedPage = await this.extractSinglePage(page, pageNum - 1);
-				extractedPages.push(extractedPage);
-
-				this.logger.debug(
-					{ pageIndex: pageNum - 1, formType: extractedPage.formType },
-					`Extracted page %d: %s`,
-					pageNum - 1,
-					extractedPage.formType,
-				);
+				pdfDoc = await loadingTask.promise;
 			} catch (error) {
-				if (error instanceof ExtractionError) {
-					throw error;
-				}
+				this.throwIfAborted(signal);
+				this.throwIfPasswordError(error, options.password);
 				const message =
 					error instanceof Error ? error.message : "Unknown error";
+				throw new ExtractionError(`Failed to load PDF: ${message}`);
+			}
+
+			const numPages = pdfDoc.numPages;
+			const range: PageRange = {
+				start: Math.max(0, options.pageRange?.start ?? 0),
+				end: Math.min(numPages, options.pageRange?.end ?? numPages),
+			};
 
-				throw new ExtractionError(
-					`Failed to extract page: ${message}`,
-					pageNum - 1,
+			this.logger.info(`Extracted %d page(s) from PDF`, numPages);
+
+			// Distribute the page range to worker threads
+			if (this.workerPool) {
+				for await (const page of this.workerPool.extract(
+					pdfBuffer,
+					range,
+					options,
+				)) {
+					yield this.redactPage(page);
+				}
+				return;
+			}
+
+			// Process each page
+			for (let pageIndex = range.start; pageIndex < range.end; pageIndex++) {
+				this.throwIfAborted(signal);
+
+				const extractedPage = await this.extractPageAt(
+					pdfDoc,
+					pageIndex,
+					signal,
 				);
+
+				onProgress?.({
+					completed: pageIndex - range.start + 1,
+					total: range.end - range.start,
+					pageIndex,
+				});
+
+				yield this.redactPage(extractedPage);
 			}
+		} finally {
+			// Clean up pdf.js document
+			signal?.removeEventListener("abort", onAbort);
+			await loadingTask.destroy();
 		}
+	}
 
-		// Clean up pdf.js document
-		await pdfDoc.cleanup();
+	/**
+	 * Apply the redactor (if configured) to an extracted page
+	 */
+	private redactPage(page: TPage): TPage {
+		return this.redactor ? this.redactor.redactPage(page) : page;
+	}
 
-		return extractedPages;
+	/**
+	 * Load and extract a single page of a pdf.js document
+	 *
+	 * @param pdfDoc - PDF.js document
+	 * @param pageIndex - 0-based page index
+	 * @param signal - Abort signal of the extraction run
+	 * @returns Extracted page with form-specific metadata
+	 * @throws {ExtractionError} If the page cannot be extracted
+	 * @throws {ExtractionAbortedError} If the extraction was aborted
+	 */
+	private async extractPageAt(
+		pdfDoc: pdfjsLib.PDFDocumentProxy,
+		pageIndex: number,
+		signal: AbortSignal | undefined,
+	): Promise<TPage> {
+		try {
+			const page = await pdfDoc.getPage(pageIndex + 1);
+			const extractedPage = await this.extractSinglePage(page, pageIndex);
+
+			this.logger.debug(
+				{ pageIndex, formType: extractedPage.formType },
+				`Extracted page %d: %s`,
+				pageIndex,
+				extractedPage.formType,
+			);
+
+			return extractedPage;
+		} catch (error) {
+			// pdf.js rejects pending requests when the document is destroyed
+			this.throwIfAborted(signal);
+			if (error instanceof ExtractionError) {
+				throw error;
+			}
+			const message = error instanceof Error ? error.message : "Unknown error";
+
+			throw new ExtractionError(
+				`Failed to extract page: ${message}`,
+				pageIndex,
+			);
+		}
 	}
 
 	/**
@@ -109,18 +372,29 @@ export class PageExtractor {
 	private async extractSinglePage(
 		page: pdfjsLib.PDFPageProxy,
 		pageIndex: number,
-	): Promise<ExtractedPage> {
-		// Extract text from page
-		const rawText = await this.extractPageText(page);
+	): Promise<TPage> {
+		// Extract positioned text from page, recognize scanned pages by OCR
+		let layout = await PageLayout.fromPdfPage(page);
+		let ocrConfidence: number | null = null;
+		if (this.ocr && this.needsOcr(layout, this.ocr)) {
+			const recognized = await this.recognizePageLayout(page, this.ocr);
+			layout = recognized.layout;
+			ocrConfidence = recognized.confidence;
+		}
 
-		// Detect form type
-		const formType = FormDetector.detectFormType(rawText);
+		// Detect form type (form number first, heuristic signals as fallback)
+		const classification = this.formRegistry.classify(layout.rawText);
 
 		// Get appropriate form handler
-		const formHandler = FormDetector.getFormHandler(formType);
+		const formHandler = this.formRegistry.getHandler(classification.formType);
 
 		this.logger.debug(
-			{ pageIndex, formType: formHandler.formType },
+			{
+				pageIndex,
+				formType: formHandler.formType,
+				reason: classification.reason,
+				score: classification.score,
+			},
 			`Extracting page %d with %s handler`,
 			pageIndex,
 			formHandler.name,
@@ -128,20 +402,181 @@ export class PageExtractor {
 
 		// Delegate extraction to form-specific class
 		// Each form class returns its own typed metadata
-		return formHandler.extractMetadata(rawText, pageIndex, rawText);
+		const metadata = formHandler.extractMetadata(layout, pageIndex);
+
+		const formTypeProvenance = this.classificationProvenance(
+			layout,
+			classification,
+		);
+		if (formTypeProvenance) {
+			metadata.provenance.formType = formTypeProvenance;
+		}
+
+		if (ocrConfidence !== null) {
+			this.flagOcrPage(metadata, ocrConfidence);
+		}
+
+		return metadata;
 	}
 
 	/**
-	 * Extract text from a single PDF page using pdf.js
+	 * Describe the form classification as provenance of the formType field
+	 *
+	 * @param layout - Page layout
+	 * @param classification - Classification result
+	 * @returns Provenance, or null if no form was recognized
+	 */
+	private classificationProvenance(
+		layout: PageLayout,
+		classification: FormClassification,
+	): FieldProvenance | null {
+		const { formNumber, reason } = classification;
+
+		if (formNumber) {
+			return {
+				patternId: `classification.${reason}`,
+				snippet: formNumber.snippet,
+				offset: formNumber.offset,
+				boundingBox: layout.boundingBoxAt(
+					formNumber.offset,
+					formNumber.snippet.length,
+				),
+				confidence: classification.score,
+			};
+		}
+
+		if (reason === "HEURISTIC") {
+			return {
+				patternId: `classification.${reason}`,
+				snippet: classification.matchedSignals.join(", "),
+				offset: null,
+				boundingBox: null,
+				confidence: classification.score,
+			};
+		}
+
+		return null;
+	}
+
+	/**
+	 * Throw if the extraction has been aborted
+	 *
+	 * @param signal - Abort signal of the extraction run
+	 * @throws {ExtractionAbortedError} If the signal is aborted
+	 */
+	private throwIfAborted(signal: AbortSignal | undefined): void {
+		if (!signal?.aborted) {
+			return;
+		}
+		const reason: unknown = signal.reason;
+		throw new ExtractionAbortedError(
+			reason instanceof Error
+				? `Extraction was aborted: ${reason.message}`
+				: undefined,
+		);
+	}
+
+	/**
+	 * Check whether the text layer of a page is too short to be extracted
+	 *
+	 * @param layout - Layout built from the text layer
+	 * @param ocr - OCR options
+	 * @returns True if the page should be recognized by OCR
+	 */
+	private needsOcr(layout: PageLayout, ocr: PageOcrOptions): boolean {
+		const textLength = layout.rawText.replace(/\s/g, "").length;
+		return textLength < (ocr.minTextLength ?? 20);
+	}
+
+	/**
+	 * Render a page and build its layout from the words recognized by OCR
+	 * Word positions are converted from image pixels to PDF user space.
 	 *
 	 * @param page - PDF.js page object
-	 * @returns Extracted text content
+	 * @param ocr - OCR options
+	 * @returns Layout of the recognized text and the mean OCR confidence
+	 */
+	private async recognizePageLayout(
+		page: pdfjsLib.PDFPageProxy,
+		ocr: PageOcrOptions,
+	): Promise<{ layout: PageLayout; confidence: number }> {
+		const viewport = page.getViewport({ scale: (ocr.dpi ?? 300) / 72 });
+		const width = Math.ceil(viewport.width);
+		const height = Math.ceil(viewport.height);
+
+		// Loaded lazily, as only scanned pages are rendered
+		const { createCanvas } = await import("@napi-rs/canvas");
+		const canvas = createCanvas(width, height);
+		await page.render({ canvasContext: canvas.getContext("2d"), viewport })
+			.promise;
+
+		const result = await ocr.engine.recognize({
+			data: canvas.toBuffer("image/png"),
+			width,
+			height,
+		});
+
+		const items: PositionedTextItem[] = result.words.map((word) => {
+			// Bottom-left and top-right corner of the word (the bottom approximates the baseline)
+			const [x1, y1] = viewport.convertToPdfPoint(word.x, word.y + word.height);
+			const [x2, y2] = viewport.convertToPdfPoint(word.x + word.width, word.y);
+			return {
+				text: word.text,
+				x: Math.min(x1, x2),
+				y: Math.min(y1, y2),
+				width: Math.abs(x2 - x1),
+				height: Math.abs(y2 - y1),
+			};
+		});
+
+		const unscaled = page.getViewport({ scale: 1 });
+		return {
+			layout: new PageLayout(
+				items,
+				{ width: unscaled.width, height: unscaled.height },
+				{ textSource: "ocr" },
+			),
+			confidence: result.confidence,
+		};
+	}
+
+	/**
+	 * Flag a page extracted from OCR text for review
+	 * Adds an OCR_TEXT warning and scales all field confidences by the OCR confidence.
+	 *
+	 * @param metadata - Extracted page
+	 * @param confidence - Mean OCR confidence between 0 and 1
 	 */
-	private async extractPageText(page: pdfjsLib.PDFPageProxy): Promise<string> {
-		const textContent = await page.getTextContent();
+	private flagOcrPage(metadata: TPage, confidence: number): void {
+		metadata.warnings.push({
+			code: "OCR_TEXT",
+			message: `Page text was recognized by OCR (confidence ${Math.round(confidence * 100)}%), please verify the extracted values`,
+			field: null,
+		});
+
+		for (const provenance of Object.values(metadata.provenance)) {
+			provenance.confidence *= confidence;
+		}
+	}
 
-		// Combine all text items into a single string
-		return textContent.items.map((item: any) => item.str).join(" ");
+	/**
+	 * Map a pdf.js password exception to a password error
+	 *
+	 * @param error - Error thrown while loading the document
+	 * @param password - Password given for the document
+	 * @throws {PasswordRequiredError} If the PDF is encrypted and no password was given
+	 * @throws {IncorrectPasswordError} If the password is incorrect
+	 */
+	private throwIfPasswordError(error: unknown, password?: string): void {
+		if (!(error instanceof Error) || error.name !== "PasswordException") {
+			return;
+		}
+		// pdf.js asks for a password again if the given one is incorrect
+		const { code } = error as Error & { code?: number };
+		if (code === pdfjsLib.PasswordResponses.INCORRECT_PASSWORD && password) {
+			throw new IncorrectPasswordError();
+		}
+		throw new PasswordRequiredError();
 	}
 
 	/**
@@ -0,0 +1,496 @@
+import type {
+	BoundingBox,
+	PositionedTextItem,
+	TextCell,
+	TextLine,
+	TextSource,
+} from "../types.js";
+import type { PDFPageProxy } from "pdfjs-dist/legacy/build/pdf.mjs";
+
+/**
+ * Match a label against a text
+ *
+ * @returns Index directly after the label, or null if not found
+ */
+function matchLabel(text: string, label: LayoutLabel): number | null {
+	if (typeof label === "string") {
+		const index = text.toLowerCase().indexOf(label.toLowerCase());
+		return index === -1 ? null : index + label.length;
+	}
+
+	const match = new RegExp(label.source, label.flags.replace("g", "")).exec(
+		text,
+	);
+	return match ? match.index + match[0].length : null;
+}
+
+/**
+ * Match a candidate value, optionally against a pattern
+ *
+ * @returns Value (or the first capture group of the pattern) or null
+ */
+function matchValue(candidate: string, pattern?: RegExp): string | null {
+	const text = candidate.replace(/^[\s:]+/, "").trim();
+	if (!text) {
+		return null;
+	}
+	if (!pattern) {
+		return text;
+	}
+
+	const match = text.match(pattern);
+	if (!match) {
+		return null;
+	}
+	return match[1] ?? match[0];
+}
+
+/**
+ * Compute the bounding box enclosing all given boxes
+ */
+function boundingBoxOf(boxes: BoundingBox[]): BoundingBox {
+	const minX = Math.min(...boxes.map((b) => b.x));
+	const minY = Math.min(...boxes.map((b) => b.y));
+	const maxX = Math.max(...boxes.map((b) => b.x + b.width));
+	const maxY = Math.max(...boxes.map((b) => b.y + b.height));
+	return { x: minX, y: minY, width: maxX - minX, height: maxY - minY };
+}
+
+export interface PageLayoutOptions {
+	/**
+	 * Maximum vertical distance (in points) between item baselines on the same line.
+	 * Defaults to half of the item height, but at least 2 points.
+	 */
+	lineTolerance?: number;
+
+	/**
+	 * Minimum horizontal gap (in points) between items that starts a new cell.
+	 * Defaults to 6 points.
+	 */
+	cellGap?: number;
+
+	/**
+	 * Origin of the text items. Defaults to "pdf" (text layer).
+	 */
+	textSource?: TextSource;
+}
+
+/**
+ * Label to search for: either a plain string (case-insensitive substring match)
+ * or a regular expression
+ */
+export type LayoutLabel = string | RegExp;
+
+/**
+ * Value found next to or below a label, with the cell it was taken from
+ */
+export interface LayoutValueMatch {
+	/** Value text (or the first capture group of the value pattern) */
+	value: string;
+	/** Cell containing the value */
+	cell: TextCell;
+}
+
+/**
+ * Layout-aware text model of a single PDF page
+ * Keeps text item positions and reconstructs lines and table cells,
+ * so form handlers can query values by region or by label.
+ */
+export class PageLayout {
+	/**
+	 * Create a layout from plain text without positional information
+	 * Each text line becomes one item; positions are synthetic (one line per point row).
+	 *
+	 * @param text - Plain page text
+	 * @returns Layout with one line per text line
+	 */
+	public static fromText(text: string): PageLayout {
+		const lines = text.split("\n");
+		const items = lines.map((line, index) => ({
+			text: line,
+			x: 0,
+			y: lines.length - index,
+			width: line.length,
+			height: 1,
+		}));
+
+		return new PageLayout(
+			items,
+			{ width: 0, height: lines.length },
+			{ lineTolerance: 0.1 },
+		);
+	}
+
+	/**
+	 * Create a layout from the text layer of a pdf.js page
+	 * Keeps the x/y transforms of every text item.
+	 *
+	 * @param page - PDF.js page object
+	 * @returns Layout-aware text model of the page
+	 */
+	public static async fromPdfPage(page: PDFPageProxy): Promise<PageLayout> {
+		const textContent = await page.getTextContent();
+		const viewport = page.getViewport({ scale: 1 });
+
+		const items = textContent.items
+			.filter((item) => "str" in item)
+			.map((item) => ({
+				text: item.str,
+				// Translation components of the text matrix
+				x: item.transform[4] as number,
+				y: item.transform[5] as number,
+				width: item.width,
+				height: item.height,
+			}));
+
+		return new PageLayout(items, {
+			width: viewport.width,
+			height: viewport.height,
+		});
+	}
+
+	/**
+	 * All non-empty text items with their positions
+	 */
+	public readonly items: PositionedTextItem[];
+
+	/**
+	 * Reconstructed lines, ordered top to bottom
+	 */
+	public readonly lines: TextLine[];
+
+	/**
+	 * Text items joined with a single space (legacy text representation)
+	 */
+	public readonly rawText: string;
+
+	/**
+	 * Page width in points
+	 */
+	public readonly width: number;
+
+	/**
+	 * Page height in points
+	 */
+	public readonly height: number;
+
+	/**
+	 * Origin of the text items (PDF text layer or OCR)
+	 */
+	public readonly textSource: TextSource;
+
+	private readonly lineTolerance: number | undefined;
+	private readonly cellGap: number;
+	private readonly itemOffsets: Map<PositionedTextItem, number>;
+
+	public constructor(
+		items: PositionedTextItem[],
+		dimensions: { width: number; height: number },
+		options: PageLayoutOptions = {},
+	) {
+		this.rawText = items.map((item) => item.text).join(" ");
+		this.itemOffsets = new Map();
+		let offset = 0;
+		for (const item of items) {
+			this.itemOffsets.set(item, offset);
+			offset += item.text.length + 1;
+		}
+		this.items = items.filter((item) => item.text.trim().length > 0);
+		this.width = dimensions.width;
+		this.height = dimensions.height;
+		this.lineTolerance = options.lineTolerance;
+		this.cellGap = options.cellGap ?? 6;
+		this.textSource = options.textSource ?? "pdf";
+		this.lines = this.buildLines();
+	}
+
+	/**
+	 * Text of all lines, separated by newlines
+	 */
+	public get text(): string {
+		return this.lines.map((line) => line.text).join("\n");
+	}
+
+	/**
+	 * Find all items whose text matches the given label
+	 *
+	 * @param label - String (case-insensitive substring) or regular expression
+	 * @returns Matching items in reading order
+	 */
+	public findItems(label: LayoutLabel): PositionedTextItem[] {
+		return this.lines.flatMap((line) =>
+			line.items.filter((item) => matchLabel(item.text, label) !== null),
+		);
+	}
+
+	/**
+	 * Find all items whose center lies within the given region
+	 *
+	 * @param region - Bounding box in PDF user space
+	 * @returns Items in reading order
+	 */
+	public findInRegion(region: BoundingBox): PositionedTextItem[] {
+		return this.lines.flatMap((line) =>
+			line.items.filter((item) => {
+				const cx = item.x + item.width / 2;
+				const cy = item.y + item.height / 2;
+				return (
+					cx >= region.x &&
+					cx <= region.x + region.width &&
+					cy >= region.y &&
+					cy <= region.y + region.height
+				);
+			}),
+		);
+	}
+
+	/**
+	 * Get the text within a region, one line per row
+	 *
+	 * @param region - Bounding box in PDF user space
+	 * @returns Text of the region
+	 */
+	public getTextInRegion(region: BoundingBox): string {
+		const inRegion = new Set(this.findInRegion(region));
+		return this.lines
+			.map((line) =>
+				line.items
+					.filter((item) => inRegion.has(item))
+					.map((item) => item.text.trim())
+					.join(" "),
+			)
+			.filter((text) => text.length > 0)
+			.join("\n");
+	}
+
+	/**
+	 * Find the first line containing the label
+	 *
+	 * @param label - String (case-insensitive substring) or regular expression
+	 * @returns Matching line or null
+	 */
+	public findLine(label: LayoutLabel): TextLine | null {
+		return (
+			this.lines.find((line) => matchLabel(line.text, label) !== null) ?? null
+		);
+	}
+
+	/**
+	 * Find the value to the right of a label on the same line
+	 * Checks the remainder of the label's cell first, then the following cells.
+	 *
+	 * @param label - String (case-insensitive substring) or regular expression
+	 * @param valuePattern - Optional pattern the value must match (first group is returned if present)
+	 * @returns Value text or null if not found
+	 */
+	public findValueRightOf(
+		label: LayoutLabel,
+		valuePattern?: RegExp,
+	): string | null {
+		return this.locateValueRightOf(label, valuePattern)?.value ?? null;
+	}
+
+	/**
+	 * Like {@link findValueRightOf}, but also returns the cell the value was found in
+	 *
+	 * @param label - String (case-insensitive substring) or regular expression
+	 * @param valuePattern - Optional pattern the value must match (first group is returned if present)
+	 * @returns Value and cell, or null if not found
+	 */
+	public locateValueRightOf(
+		label: LayoutLabel,
+		valuePattern?: RegExp,
+	): LayoutValueMatch | null {
+		for (const line of this.lines) {
+			for (let i = 0; i < line.cells.length; i++) {
+				const cell = line.cells[i]!;
+				const labelEnd = matchLabel(cell.text, label);
+				if (labelEnd === null) {
+					continue;
+				}
+
+				const candidates = [
+					{ text: cell.text.slice(labelEnd), cell },
+					...line.cells.slice(i + 1).map((c) => ({ text: c.text, cell: c })),
+				];
+
+				for (const candidate of candidates) {
+					const value = matchValue(candidate.text, valuePattern);
+					if (value !== null) {
+						return { value, cell: candidate.cell };
+					}
+				}
+			}
+		}
+
+		return null;
+	}
+
+	/**
+	 * Find the value below a label (e.g. table header with values in the next rows)
+	 * Looks at the next lines for a cell that horizontally overlaps the label's cell.
+	 *
+	 * @param label - String (case-insensitive substring) or regular expression
+	 * @param valuePattern - Optional pattern the value must match (first group is returned if present)
+	 * @param maxLines - Maximum number of lines to look down (default: 3)
+	 * @returns Value text or null if not found
+	 */
+	public findValueBelow(
+		label: LayoutLabel,
+		valuePattern?: RegExp,
+		maxLines = 3,
+	): string | null {
+		return this.locateValueBelow(label, valuePattern, maxLines)?.value ?? null;
+	}
+
+	/**
+	 * Like {@link findValueBelow}, but also returns the cell the value was found in
+	 *
+	 * @param label - String (case-insensitive substring) or regular expression
+	 * @param valuePattern - Optional pattern the value must match (first group is returned if present)
+	 * @param maxLines - Maximum number of lines to look down (default: 3)
+	 * @returns Value and cell, or null if not found
+	 */
+	public locateValueBelow(
+		label: LayoutLabel,
+		valuePattern?: RegExp,
+		maxLines = 3,
+	): LayoutValueMatch | null {
+		for (let lineIndex = 0; lineIndex < this.lines.length; lineIndex++) {
+			const line = this.lines[lineIndex]!;
+			const cell = line.cells.find((c) => matchLabel(c.text, label) !== null);
+			if (!cell) {
+				continue;
+			}
+
+			const below = this.lines.slice(lineIndex + 1, lineIndex + 1 + maxLines);
+			for (const nextLine of below) {
+				const overlapping = nextLine.cells.find(
+					(c) => c.x < cell.x + cell.width && c.x + c.width > cell.x,
+				);
+				if (!overlapping) {
+					continue;
+				}
+
+				const value = matchValue(overlapping.text, valuePattern);
+				if (value !== null) {
+					return { value, cell: overlapping };
+				}
+			}
+		}
+
+		return null;
+	}
+
+	/**
+	 * Get the character offset of an item in {@link rawText}
+	 *
+	 * @param item - Item of this layout
+	 * @returns Offset or null if the item does not belong to this layout
+	 */
+	public offsetOf(item: PositionedTextItem): number | null {
+		return this.itemOffsets.get(item) ?? null;
+	}
+
+	/**
+	 * Get the items overlapping a character range in {@link rawText}
+	 *
+	 * @param offset - Start offset in rawText
+	 * @param length - Length of the range
+	 * @returns Overlapping items
+	 */
+	public itemsAt(offset: number, length: number): PositionedTextItem[] {
+		return this.items.filter((item) => {
+			const start = this.itemOffsets.get(item)!;
+			return (
+				start < offset + Math.max(length, 1) &&
+				offset < start + item.text.length
+			);
+		});
+	}
+
+	/**
+	 * Get the bounding box of a character range in {@link rawText}
+	 *
+	 * @param offset - Start offset in rawText
+	 * @param length - Length of the range
+	 * @returns Box enclosing all items overlapping the range, or null if none
+	 */
+	public boundingBoxAt(offset: number, length: number): BoundingBox | null {
+		const covered = this.itemsAt(offset, length);
+		return covered.length > 0 ? boundingBoxOf(covered) : null;
+	}
+
+	/**
+	 * Group items into lines (by baseline) and lines into cells (by horizontal gaps)
+	 */
+	private buildLines(): TextLine[] {
+		// Sort top to bottom (PDF y axis points up), then left to right
+		const sorted = [...this.items].sort((a, b) =>
+			Math.abs(a.y - b.y) > 0.01 ? b.y - a.y : a.x - b.x,
+		);
+
+		const groups: PositionedTextItem[][] = [];
+		for (const item of sorted) {
+			const current = groups[groups.length - 1];
+			const reference = current?.[0];
+			const tolerance =
+				this.lineTolerance ?? Math.max(2, (reference?.height ?? 0) / 2);
+
+			if (reference && Math.abs(reference.y - item.y) <= tolerance) {
+				current.push(item);
+			} else {
+				groups.push([item]);
+			}
+		}
+
+		return groups.map((group) => {
+			const items = group.sort((a, b) => a.x - b.x);
+			const cells = this.buildCells(items);
+			return {
+				...boundingBoxOf(items),
+				text: cells.map((cell) => cell.text).join(" "),
+				items,
+				cells,
+			};
+		});
+	}
+
+	/**
+	 * Split the items of a line into cells at large horizontal gaps
+	 */
+	private buildCells(items: PositionedTextItem[]): TextCell[] {
+		const groups: PositionedTextItem[][] = [];
+		let previous: PositionedTextItem | null = null;
+
+		for (const item of items) {
+			const gap = previous ? item.x - (previous.x + previous.width) : 0;
+			if (!previous || gap > this.cellGap) {
+				groups.push([item]);
+			} else {
+				groups[groups.length - 1]!.push(item);
+			}
+			previous = item;
+		}
+
+		return groups.map((group) => {
+			let text = "";
+			let last: PositionedTextItem | null = null;
+			for (const item of group) {
+				// Insert a space if the items are visibly apart
+				const gap = last ? item.x - (last.x + last.width) : 0;
+				text +=
+					last && gap > Math.max(0.5, item.height * 0.1)
+						? ` ${item.text}`
+						: item.text;
+				last = item;
+			}
+
+			return {
+				...boundingBoxOf(group),
+				text: text.replace(/\s+/g, " ").trim(),
+				items: group,
+			};
+		});
+	}
+}
@@ -38,6 +38,41 @@ export class ExtractionError extends DatevExtractionError {
 	}
 }
 
+/**
+ * Error thrown when an extraction is aborted through its AbortSignal
+ */
+export class ExtractionAbortedError extends DatevExtractionError {
+	public constructor(message = "Extraction was aborted") {
+		super(message);
+		this.name = "ExtractionAbortedError";
+		Object.setPrototypeOf(this, ExtractionAbortedError.prototype);
+	}
+}
+
+/**
+ * Error thrown when a PDF is encrypted and no password was given
+ */
+export class PasswordRequiredError extends DatevExtractionError {
+	public constructor(
+		message = "PDF is password-protected, a password is required",
+	) {
+		super(message);
+		this.name = "PasswordRequiredError";
+		Object.setPrototypeOf(this, PasswordRequiredError.prototype);
+	}
+}
+
+/**
+ * Error thrown when the password of an encrypted PDF is incorrect
+ */
+export class IncorrectPasswordError extends DatevExtractionError {
+	public constructor(message = "Incorrect password for encrypted PDF") {
+		super(message);
+		this.name = "IncorrectPasswordError";
+		Object.setPrototypeOf(this, IncorrectPasswordError.prototype);
+	}
+}
+
 /**
  * Error thrown when form detection fails
  */
@@ -1,17 +1,60 @@
-import type { CompanyGroup, ExtractedPage, PersonnelGroup } from "../types.js";
+import { isLOGN17Page } from "../type-guards.js";
+
+import type { PayrollPeriod } from "../period.js";
+import type {
+	BasePage,
+	CompanyGroup,
+	ExtractedPage,
+	LOGN17EmployeeData,
+	LOGN17Page,
+	PayrollStatement,
+	PersonnelGroup,
+} from "../types.js";
+
+/**
+ * Context of the current employee statement, inherited by continuation pages
+ */
+interface StatementContext {
+	personnelNumber: string | null;
+	period: PayrollPeriod | null;
+	/** Whether the statement is a correction run */
+	isCorrection: boolean;
+	/** Corrected period of a correction run, or null if unknown */
+	correctedPeriod: PayrollPeriod | null;
+	/** Whether a page of the statement has a netto amount */
+	hasNetto: boolean;
+	/** Whether the current page starts a new statement */
+	startsStatement: boolean;
+}
+
+/**
+ * Check whether two optional periods are equal
+ */
+function samePeriod(a: PayrollPeriod | null, b: PayrollPeriod | null): boolean {
+	return a && b ? a.equals(b) : a === b;
+}
+
+/**
+ * Key of the personnel groups
+ * - "personnel": one group per personnel number (date from the first page)
+ * - "period": one group per personnel number and payroll period
+ */
+export type PersonnelGroupingMode = "personnel" | "period";
 
 /**
  * Result of grouping operation
+ *
+ * @template TPage - Page type of the grouped pages
  */
-export interface PageGrouperResult {
+export interface PageGrouperResult<TPage extends BasePage = ExtractedPage> {
 	/**
 	 * Groups of pages per personnel number
 	 */
-	personnelGroups: PersonnelGroup[];
+	personnelGroups: PersonnelGroup<TPage>[];
 	/**
 	 * Company-wide pages grouped by month (if any)
 	 */
-	companyGroups: CompanyGroup[];
+	companyGroups: CompanyGroup<TPage>[];
 }
 
 /**
@@ -26,12 +69,60 @@ export class PageGrouper {
 	 * @param pages - Extracted pages to group
 	 * @returns Grouping result with personnel groups and company pages
 	 */
-	public groupByPersonnel(pages: ExtractedPage[]): PageGrouperResult {
-		const personnelMap = new Map<string, ExtractedPage[]>();
-		const companyPages: ExtractedPage[] = [];
+	public groupByPersonnel<TPage extends BasePage>(
+		pages: TPage[],
+	): PageGrouperResult<TPage> {
+		return this.group(pages, "personnel");
+	}
+
+	/**
+	 * Group pages by personnel number and payroll period
+	 * Yields one personnel group per employee and month, e.g. for PDFs
+	 * spanning several months. Correction runs (Rückrechnungen) form separate
+	 * groups for their corrected period.
+	 *
+	 * @param pages - Extracted pages to group
+	 * @returns Grouping result with personnel groups and company pages
+	 */
+	public groupByPersonnelAndPeriod<TPage extends BasePage>(
+		pages: TPage[],
+	): PageGrouperResult<TPage> {
+		return this.group(pages, "period");
+	}
+
+	/**
+	 * Group pages using the given grouping mode
+	 *
+	 * @param pages - Extracted pages to group
+	 * @param mode - Key of the personnel groups (default: "personnel")
+	 * @returns Grouping result with personnel groups and company pages
+	 */
+	public group<TPage extends BasePage>(
+		pages: TPage[],
+		mode: PersonnelGroupingMode = "personnel",
+	): PageGrouperResult<TPage> {
+		const personnelMap = new Map<
+			string,
+			Omit<
+				PersonnelGroup<TPage>,
+				"employeeName" | "employee" | "statements"
+			> & {
+				statementPages: LOGN17Page[][];
+			}
+		>();
+		const companyPages: TPage[] = [];
 
 		// Track context for continuation pages
-		let currentPersonnelNumber: string | null = null;
+		let context: StatementContext = {
+			personnelNumber: null,
+			period: null,
+			isCorrection: false,
+			correctedPeriod: null,
+			hasNetto: false,
+			startsStatement: false,
+		};
+		// Salary statement the following continuation pages are added to
+		let statement: { key: string; pages: LOGN17Page[] } | null = null;
 
 		for (const page of pages) {
 			// Company-wide pages (including UNKNOWN) ALWAYS go to company group
@@ -40,18 +131,39 @@ export class PageGrouper {
 				continue;
 			}
 
-			// Update context if we find a personnel number
-			if (page.personnelNumber) {
-				currentPersonnelNumber = page.personnelNumber;
-			}
+			context = this.updateContext(context, page);
+			const { personnelNumber } = context;
 
 			// Assign page to appropriate group
-			if (currentPersonnelNumber) {
+			if (personnelNumber) {
+				const key = this.groupKey(context, mode);
+
 				// Add to personnel group
-				if (!personnelMap.has(currentPersonnelNumber)) {
-					personnelMap.set(currentPersonnelNumber, []);
+				if (!personnelMap.has(key)) {
+					personnelMap.set(key, {
+						personnelNumber,
+						// Period groups carry their key period, others the first page's period
+						period:
+							mode === "period"
+								? context.isCorrection
+									? context.correctedPeriod
+									: context.period
+								: page.period,
+						isCorrection: mode === "period" && context.isCorrection,
+						pages: [],
+						statementPages: [],
+					});
+				}
+				const group = personnelMap.get(key)!;
+				group.pages.push(page);
+
+				if (isLOGN17Page(page)) {
+					if (!statement || statement.key !== key || context.startsStatement) {
+						statement = { key, pages: [] };
+						group.statementPages.push(statement.pages);
+					}
+					statement.pages.push(page);
 				}
-				personnelMap.get(currentPersonnelNumber)!.push(page);
 			} else {
 				// No context - treat as company-wide
 				companyPages.push(page);
@@ -59,93 +171,171 @@ export class PageGrouper {
 		}
 
 		// Convert map to personnel groups
-		const personnelGroups: PersonnelGroup[] = Array.from(
-			personnelMap.entries(),
-		).map(([personnelNumber, groupPages]) => {
-			const firstPage = groupPages[0]!;
+		const personnelGroups: PersonnelGroup<TPage>[] = Array.from(
+			personnelMap.values(),
+		).map(({ statementPages, ...group }) => ({
+			...group,
+			employeeName: group.pages[0]!.employeeName || "Unknown",
+			statements: statementPages.map((pages) => this.createStatement(pages)),
+			employee: this.findEmployeeData(group.pages),
+		}));
 
-			return {
-				personnelNumber,
-				employeeName: firstPage.employeeName || "Unknown",
-				pages: groupPages,
-				dateInfo: {
-					year: firstPage.year,
-					month: firstPage.month,
-				},
-			};
-		});
-
-		// Infer date for undated company pages from personnel groups
+		return {
+			personnelGroups,
+			companyGroups: this.groupCompanyPages(companyPages, personnelGroups),
+		};
+	}
+
+	/**
+	 * Group company pages by period
+	 * Undated pages get the period of the personnel groups, if they all share one.
+	 */
+	private groupCompanyPages<TPage extends BasePage>(
+		companyPages: TPage[],
+		personnelGroups: PersonnelGroup<TPage>[],
+	): CompanyGroup<TPage>[] {
+		// Infer the period of undated company pages from personnel groups
 		// If all personnel groups have the same period, use that for undated company pages
-		let inferredDate: { year: string; month: string } | null = null;
-		if (personnelGroups.length > 0) {
-			const firstDate = personnelGroups[0];
-			const allSameDate = personnelGroups.every(
-				(g) =>
-					g.dateInfo.year === firstDate?.dateInfo.year &&
-					g.dateInfo.month === firstDate?.dateInfo.month,
-			);
+		const firstPeriod = personnelGroups[0]?.period ?? null;
+		const inferredPeriod =
+			firstPeriod &&
+			personnelGroups.every((g) => g.period && g.period.equals(firstPeriod))
+				? firstPeriod
+				: null;
 
-			if (
-				allSameDate &&
-				firstDate?.dateInfo.year &&
-				firstDate?.dateInfo.month
-			) {
-				inferredDate = {
-					year: firstDate.dateInfo.year,
-					month: firstDate.dateInfo.month,
-				};
+		const companyGroupsMap = new Map<
+			string,
+			{ period: PayrollPeriod | null; pages: TPage[] }
+		>();
+		for (const page of companyPages) {
+			// Explicit period of the page, else the inferred period (if any)
+			const period = page.period ?? inferredPeriod;
+			const periodKey = period?.toISOString() ?? "no-date";
+
+			if (!companyGroupsMap.has(periodKey)) {
+				companyGroupsMap.set(periodKey, { period, pages: [] });
 			}
+			companyGroupsMap.get(periodKey)!.pages.push(page);
 		}
 
-		// Group company pages by month
-		const companyGroupsMap = new Map<string, ExtractedPage[]>();
-		for (const page of companyPages) {
-			let monthKey: string;
-			if (page.year && page.month) {
-				// Page has explicit date
-				monthKey = `${page.year}-${page.month}`;
-			} else if (inferredDate) {
-				// Use inferred date from personnel groups
-				monthKey = `${inferredDate.year}-${inferredDate.month}`;
-			} else {
-				// No date available
-				monthKey = "no-date";
-			}
+		return Array.from(companyGroupsMap.values()).map(({ period, pages }) => ({
+			pages,
+			formTypes: new Set(pages.map((p) => p.formType)),
+			period,
+		}));
+	}
+
+	/**
+	 * Update the statement context with the identity and period of a page
+	 * The first salary statement page states whether the statement is a
+	 * correction run; continuation pages inherit the context.
+	 */
+	private updateContext(
+		context: StatementContext,
+		page: BasePage,
+	): StatementContext {
+		const next: StatementContext = { ...context, startsStatement: false };
 
-			if (!companyGroupsMap.has(monthKey)) {
-				companyGroupsMap.set(monthKey, []);
+		if (
+			page.personnelNumber &&
+			page.personnelNumber !== context.personnelNumber
+		) {
+			next.personnelNumber = page.personnelNumber;
+			next.isCorrection = false;
+			next.correctedPeriod = null;
+			next.hasNetto = false;
+			next.startsStatement = true;
+		}
+		if (page.period) {
+			next.period = page.period;
+		}
+		if (isLOGN17Page(page)) {
+			if (next.startsStatement || this.startsStatement(context, page)) {
+				next.startsStatement = true;
+				next.isCorrection = !!page.correction;
+				next.correctedPeriod = page.correction?.correctedPeriod ?? null;
+				next.hasNetto = false;
 			}
-			companyGroupsMap.get(monthKey)!.push(page);
+			next.hasNetto ||= page.netto !== null;
 		}
 
-		const companyGroups: CompanyGroup[] = Array.from(
-			companyGroupsMap.entries(),
-		).map(([key, pages]) => {
-			// Determine dateInfo for this group
-			let dateInfo: { year: string; month: string } | null = null;
-
-			if (key !== "no-date") {
-				// Try to get date from first page with explicit date
-				const pageWithDate = pages.find((p) => p.year && p.month);
-				if (pageWithDate?.year && pageWithDate?.month) {
-					dateInfo = { year: pageWithDate.year, month: pageWithDate.month };
-				} else if (inferredDate) {
-					// Use inferred date
-					dateInfo = inferredDate;
-				}
-			}
+		return next;
+	}
 
-			return {
-				pages,
-				formTypes: new Set(pages.map((p) => p.formType)),
-				dateInfo,
-			};
-		});
+	/**
+	 * Check whether a salary statement page of the current employee starts a new statement
+	 * Pages with the correction marker start a correction run, unless they
+	 * continue one of the same period. Pages without it continue the current
+	 * statement (also a correction run), unless their period changes or both the
+	 * statement and the page have a netto amount.
+	 */
+	private startsStatement(
+		context: StatementContext,
+		page: LOGN17Page,
+	): boolean {
+		if (page.correction) {
+			return (
+				!context.isCorrection ||
+				!samePeriod(page.correction.correctedPeriod, context.correctedPeriod)
+			);
+		}
+		return (
+			(page.period !== null && !samePeriod(page.period, context.period)) ||
+			(context.hasNetto && page.netto !== null)
+		);
+	}
+
+	/**
+	 * Create a salary statement from its pages
+	 * The correction run is taken from the first page, its difference from the
+	 * first page stating one.
+	 */
+	private createStatement(pages: LOGN17Page[]): PayrollStatement {
+		const first = pages[0]!;
+		const nettoDifference =
+			pages
+				.map((page) => page.correction?.nettoDifference ?? null)
+				.find((difference) => difference !== null) ?? null;
 
 		return {
-			personnelGroups,
-			companyGroups,
+			pages,
+			totalsPage: pages.find((page) => page.netto !== null) ?? first,
+			correction: first.correction
+				? { correctedPeriod: first.correction.correctedPeriod, nettoDifference }
+				: null,
 		};
 	}
+
+	/**
+	 * Get the employee master data of the first salary statement page
+	 */
+	private findEmployeeData(pages: BasePage[]): LOGN17EmployeeData | null {
+		for (const page of pages) {
+			if (isLOGN17Page(page)) {
+				return page.employee;
+			}
+		}
+		return null;
+	}
+
+	/**
+	 * Build the map key of the personnel group a page belongs to
+	 */
+	private groupKey(
+		context: StatementContext,
+		mode: PersonnelGroupingMode,
+	): string {
+		const { personnelNumber, period, isCorrection, correctedPeriod } = context;
+		if (mode === "personnel") {
+			return personnelNumber ?? "";
+		}
+		if (isCorrection) {
+			return [
+				personnelNumber,
+				"correction",
+				correctedPeriod?.toISOString() ?? "",
+			].join("|");
+		}
+		return [personnelNumber, period?.toISOString() ?? ""].join("|");
+	}
 }
@@ -1,16 +1,41 @@
 export * from "./errors.js";
+export * from "./money.js";
+export * from "./period.js";
 export * from "./type-guards.js";
 
+export * from "./banking/index.js";
 export * from "./core/index.js";
 export * from "./grouping/index.js";
+export * from "./ocr/index.js";
 export * from "./output/index.js";
+export * from "./pipeline/index.js";
+export * from "./redaction/index.js";
 
 export type {
 	// Core types
 	FormType,
-	DateInfo,
+	TextSource,
+	ExtractionWarning,
+	ExtractionWarningCode,
+	FieldProvenance,
+	FieldProvenanceMap,
+
+	// Layout types
+	BoundingBox,
+	PositionedTextItem,
+	TextCell,
+	TextLine,
+
+	// LOGN17 detail types
+	LineItemKind,
+	LOGN17LineItem,
+	LOGN17Correction,
+	LOGN17Address,
+	LOGN17EmployeeData,
+	LOGN17Deductions,
 
 	// Form-specific page types (discriminated union)
+	BasePage,
 	LOGN17Page,
 	LOMS05Page,
 	UnknownPage,
@@ -20,9 +45,22 @@ export type {
 
 	// Grouping types
 	PersonnelGroup,
+	PayrollStatement,
 	CompanyGroup,
 
 	// Output types
 	GeneratedPersonnelPdf,
 	GeneratedCompanyPdf,
+	PayrollSummaryFormat,
+	PayrollSummaryRow,
+	PayrollSummaryTotals,
+	PayrollSummary,
+	DatevBooking,
+
+	// Pipeline types
+	ProcessingWarning,
+	PageProvenance,
+	ProcessingMetadata,
+	ProcessingArtifact,
+	ProcessingArtifactKind,
 } from "./types.js";
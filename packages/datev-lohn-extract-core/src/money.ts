@@ -0,0 +1,300 @@
+/**
+ * Exact money value type based on integer cents
+ * Avoids floating point rounding issues when parsing and summing amounts
+ */
+
+import { ValidationError } from "./errors.js";
+
+/**
+ * German amount: optional thousand separators (dots), decimal comma, 0-2 decimals
+ */
+const GERMAN_AMOUNT_PATTERN = /^(?:\d{1,3}(?:\.\d{3})+|\d+)(?:,(\d{1,2}))?$/;
+
+/**
+ * Decimal amount with dot as decimal separator, 0-2 decimals
+ */
+const DECIMAL_AMOUNT_PATTERN = /^\d+(?:\.(\d{1,2}))?$/;
+
+/**
+ * Strip currency symbols and whitespace and extract a leading or trailing sign
+ */
+function splitSign(value: string): { negative: boolean; digits: string } {
+	let digits = value
+		.trim()
+		.replace(/\s*(?:€|EUR)$/i, "")
+		.trim();
+
+	let negative = false;
+	if (digits.endsWith("-")) {
+		negative = true;
+		digits = digits.slice(0, -1).trim();
+	} else if (digits.startsWith("-")) {
+		negative = true;
+		digits = digits.slice(1).trim();
+	} else if (digits.startsWith("+")) {
+		digits = digits.slice(1).trim();
+	}
+
+	return { negative, digits };
+}
+
+/**
+ * Immutable money value (integer cents + ISO 4217 currency code)
+ *
+ * @example
+ * ```typescript
+ * const netto = Money.parseGerman("1.234,56-"); // -1234.56 EUR
+ * const total = Money.sum([netto, Money.fromCents(100)]);
+ * total.toDecimalString(); // "-1233.56"
+ * total.formatGerman(); // "-1.233,56"
+ * ```
+ */
+export class Money {
+	/**
+	 * Create a money value from integer cents
+	 *
+	 * @param cents - Amount in cents
+	 * @param currency - ISO 4217 currency code (default: EUR)
+	 * @throws {ValidationError} If cents is not a safe integer
+	 */
+	public static fromCents(cents: number, currency = "EUR"): Money {
+		if (!Number.isSafeInteger(cents)) {
+			throw new ValidationError(`Invalid amount in cents: ${cents}`);
+		}
+		// Normalize -0 to 0
+		return new Money(cents === 0 ? 0 : cents, currency);
+	}
+
+	/**
+	 * Create a zero money value
+	 *
+	 * @param currency - ISO 4217 currency code (default: EUR)
+	 */
+	public static zero(currency = "EUR"): Money {
+		return new Money(0, currency);
+	}
+
+	/**
+	 * Parse a German formatted amount
+	 * Supports thousand separators, decimal comma, leading or trailing minus
+	 * and an optional currency suffix: "1.234,56", "1234,5", "1.234,56-", "-40,00 €"
+	 *
+	 * @param value - German formatted amount
+	 * @param currency - ISO 4217 currency code (default: EUR)
+	 * @throws {ValidationError} If the value is not a valid German amount
+	 */
+	public static parseGerman(value: string, currency = "EUR"): Money {
+		const money = Money.tryParseGerman(value, currency);
+		if (!money) {
+			throw new ValidationError(`Invalid German amount: "${value}"`);
+		}
+		return money;
+	}
+
+	/**
+	 * Parse a German formatted amount, returning null if it is invalid
+	 *
+	 * @param value - German formatted amount
+	 * @param currency - ISO 4217 currency code (default: EUR)
+	 */
+	public static tryParseGerman(value: string, currency = "EUR"): Money | null {
+		const { negative, digits } = splitSign(value);
+
+		const match = digits.match(GERMAN_AMOUNT_PATTERN);
+		if (!match) {
+			return null;
+		}
+
+		const integer = digits.split(",")[0]!.replace(/\./g, "");
+		return Money.fromParts({ integer, fraction: match[1], negative }, currency);
+	}
+
+	/**
+	 * Parse a decimal amount with dot as decimal separator ("1234.56", "-40.00")
+	 *
+	 * @param value - Decimal amount
+	 * @param currency - ISO 4217 currency code (default: EUR)
+	 * @throws {ValidationError} If the value is not a valid decimal amount
+	 */
+	public static parseDecimal(value: string, currency = "EUR"): Money {
+		const { negative, digits } = splitSign(value);
+
+		const match = digits.match(DECIMAL_AMOUNT_PATTERN);
+		if (!match) {
+			throw new ValidationError(`Invalid decimal amount: "${value}"`);
+		}
+
+		const integer = digits.split(".")[0]!;
+		return Money.fromParts({ integer, fraction: match[1], negative }, currency);
+	}
+
+	/**
+	 * Sum money values
+	 *
+	 * @param values - Values to sum (must share the same currency)
+	 * @param currency - Currency of the result if values is empty (default: EUR)
+	 * @throws {ValidationError} If currencies differ
+	 */
+	public static sum(values: Money[], currency = "EUR"): Money {
+		return values.reduce(
+			(total, value) => total.add(value),
+			Money.zero(values[0]?.currency ?? currency),
+		);
+	}
+
+	/**
+	 * Restore a money value from its JSON representation (see {@link toJSON})
+	 *
+	 * @param json - Decimal amount string and currency
+	 * @throws {ValidationError} If the amount is not a valid decimal amount
+	 */
+	public static fromJSON(json: { amount: string; currency: string }): Money {
+		return Money.parseDecimal(json.amount, json.currency);
+	}
+
+	/**
+	 * Build a money value from parsed integer and fraction digits
+	 */
+	private static fromParts(
+		parts: { integer: string; fraction: string | undefined; negative: boolean },
+		currency: string,
+	): Money {
+		const cents =
+			parseInt(parts.integer, 10) * 100 +
+			parseInt((parts.fraction ?? "").padEnd(2, "0"), 10);
+		return Money.fromCents(parts.negative ? -cents : cents, currency);
+	}
+
+	private constructor(
+		/**
+		 * Amount in cents (minor units)
+		 */
+		public readonly cents: number,
+		/**
+		 * ISO 4217 currency code
+		 */
+		public readonly currency: string,
+	) {}
+
+	/**
+	 * Add another money value
+	 *
+	 * @throws {ValidationError} If currencies differ
+	 */
+	public add(other: Money): Money {
+		this.assertSameCurrency(other);
+		return Money.fromCents(this.cents + other.cents, this.currency);
+	}
+
+	/**
+	 * Subtract another money value
+	 *
+	 * @throws {ValidationError} If currencies differ
+	 */
+	public subtract(other: Money): Money {
+		this.assertSameCurrency(other);
+		return Money.fromCents(this.cents - other.cents, this.currency);
+	}
+
+	/**
+	 * Negate the amount
+	 */
+	public negate(): Money {
+		return Money.fromCents(-this.cents, this.currency);
+	}
+
+	/**
+	 * Absolute amount
+	 */
+	public abs(): Money {
+		return Money.fromCents(Math.abs(this.cents), this.currency);
+	}
+
+	public isZero(): boolean {
+		return this.cents === 0;
+	}
+
+	public isPositive(): boolean {
+		return this.cents > 0;
+	}
+
+	public isNegative(): boolean {
+		return this.cents < 0;
+	}
+
+	/**
+	 * Compare with another money value
+	 *
+	 * @returns -1 if less, 0 if equal, 1 if greater
+	 * @throws {ValidationError} If currencies differ
+	 */
+	public compare(other: Money): -1 | 0 | 1 {
+		this.assertSameCurrency(other);
+		return this.cents < other.cents ? -1 : this.cents > other.cents ? 1 : 0;
+	}
+
+	/**
+	 * Check equality (same amount and currency)
+	 */
+	public equals(other: Money): boolean {
+		return this.currency === other.currency && this.cents === other.cents;
+	}
+
+	/**
+	 * Format as decimal string with dot separator ("1234.56", "-40.00")
+	 */
+	public toDecimalString(): string {
+		const { sign, integer, fraction } = this.toParts();
+		return `${sign}${integer}.${fraction}`;
+	}
+
+	/**
+	 * Format in German notation ("1.234,56", "-40,00")
+	 *
+	 * @param options.trailingMinus - Use DATEV style trailing minus ("40,00-")
+	 */
+	public formatGerman(options: { trailingMinus?: boolean } = {}): string {
+		const { sign, integer, fraction } = this.toParts();
+		const grouped = integer.replace(/\B(?=(\d{3})+(?!\d))/g, ".");
+		return options.trailingMinus
+			? `${grouped},${fraction}${sign}`
+			: `${sign}${grouped},${fraction}`;
+	}
+
+	/**
+	 * Decimal string with currency ("1234.56 EUR")
+	 */
+	public toString(): string {
+		return `${this.toDecimalString()} ${this.currency}`;
+	}
+
+	/**
+	 * JSON representation: decimal amount string and currency
+	 */
+	public toJSON(): { amount: string; currency: string } {
+		return { amount: this.toDecimalString(), currency: this.currency };
+	}
+
+	/**
+	 * Split into sign, integer digits and two fraction digits
+	 */
+	private toParts(): { sign: string; integer: string; fraction: string } {
+		const abs = Math.abs(this.cents);
+		return {
+			sign: this.cents < 0 ? "-" : "",
+			integer: String(Math.floor(abs / 100)),
+			fraction: String(abs % 100).padStart(2, "0"),
+		};
+	}
+
+	/**
+	 * Ensure both values share the same currency
+	 */
+	private assertSameCurrency(other: Money): void {
+		if (this.currency !== other.currency) {
+			throw new ValidationError(
+				`Currency mismatch: ${this.currency} and ${other.currency}`,
+			);
+		}
+	}
+}
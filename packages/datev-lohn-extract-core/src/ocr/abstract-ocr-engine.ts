@@ -0,0 +1,61 @@
+/**
+ * Abstract base class for OCR engines
+ * Used by the PageExtractor for pages without a usable text layer (scans)
+ */
+
+import type { BoundingBox } from "../types.js";
+
+/**
+ * Rendered page image passed to an OCR engine
+ */
+export interface OcrImage {
+	/** PNG-encoded image */
+	data: Buffer;
+	/** Image width in pixels */
+	width: number;
+	/** Image height in pixels */
+	height: number;
+}
+
+/**
+ * Word recognized by an OCR engine
+ * Position in image pixels, origin at the top-left corner of the image
+ */
+export interface OcrWord extends BoundingBox {
+	/** Recognized text */
+	text: string;
+	/** Recognition confidence between 0 and 1 */
+	confidence: number;
+}
+
+/**
+ * Result of recognizing a page image
+ */
+export interface OcrResult {
+	/** Recognized words in reading order */
+	words: OcrWord[];
+	/** Mean recognition confidence between 0 and 1 */
+	confidence: number;
+}
+
+/**
+ * Abstract OCR engine
+ *
+ * Implementations wrap an OCR library (e.g. TesseractOcrEngine) and may keep
+ * resources such as worker threads alive between pages until terminated.
+ */
+export abstract class AbstractOcrEngine {
+	/**
+	 * Recognize the words on a page image
+	 *
+	 * @param image - Rendered page image
+	 * @returns Recognized words with positions and confidence
+	 */
+	public abstract recognize(image: OcrImage): Promise<OcrResult>;
+
+	/**
+	 * Release all resources held by the engine
+	 * The engine may be used again afterwards and then re-initializes itself.
+	 */
+	public abstract terminate(): Promise<void>;
+}
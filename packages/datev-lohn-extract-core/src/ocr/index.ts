@@ -0,0 +1,2 @@
+export * from "./abstract-ocr-engine.js";
+export * from "./tesseract-ocr-engine.js";
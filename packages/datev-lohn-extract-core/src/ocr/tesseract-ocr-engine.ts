@@ -0,0 +1,91 @@
+import { createRequire } from "module";
+import path from "path";
+
+import { AbstractOcrEngine } from "./abstract-ocr-engine.js";
+
+import type { OcrImage, OcrResult, OcrWord } from "./abstract-ocr-engine.js";
+import type { Worker as TesseractWorker } from "tesseract.js";
+
+export interface TesseractOcrEngineOptions {
+	/**
+	 * Tesseract language code. Defaults to "deu".
+	 */
+	language?: string;
+
+	/**
+	 * Directory containing `<language>.traineddata.gz`.
+	 * Defaults to the German language data bundled with this package
+	 * (@tesseract.js-data/deu), so no data is downloaded at runtime.
+	 */
+	langPath?: string;
+}
+
+/**
+ * OCR engine based on tesseract.js (LSTM model)
+ * The tesseract worker is created on first use and kept until terminate().
+ */
+export class TesseractOcrEngine extends AbstractOcrEngine {
+	/**
+	 * Directory of the bundled German language data (LSTM "best_int" model)
+	 */
+	private static bundledLangPath(): string {
+		const packageJson = createRequire(import.meta.url).resolve(
+			"@tesseract.js-data/deu/package.json",
+		);
+		return path.join(path.dirname(packageJson), "4.0.0_best_int");
+	}
+
+	private readonly language: string;
+	private readonly langPath: string | undefined;
+	private worker: Promise<TesseractWorker> | null = null;
+
+	public constructor(options: TesseractOcrEngineOptions = {}) {
+		super();
+		this.language = options.language ?? "deu";
+		this.langPath = options.langPath;
+	}
+
+	public async recognize(image: OcrImage): Promise<OcrResult> {
+		const worker = await this.getWorker();
+		const { data } = await worker.recognize(image.data, {}, { blocks: true });
+
+		const words: OcrWord[] = (data.blocks ?? [])
+			.flatMap((block) => block.paragraphs)
+			.flatMap((paragraph) => paragraph.lines)
+			.flatMap((line) => line.words)
+			.map((word) => ({
+				text: word.text,
+				confidence: word.confidence / 100,
+				x: word.bbox.x0,
+				y: word.bbox.y0,
+				width: word.bbox.x1 - word.bbox.x0,
+				height: word.bbox.y1 - word.bbox.y0,
+			}));
+
+		return { words, confidence: data.confidence / 100 };
+	}
+
+	public async terminate(): Promise<void> {
+		const worker = this.worker;
+		this.worker = null;
+		if (worker) {
+			await (await worker).terminate();
+		}
+	}
+
+	/**
+	 * Get the tesseract worker, creating it on first use
+	 * tesseract.js is loaded lazily, as most PDFs do not need OCR.
+	 */
+	private getWorker(): Promise<TesseractWorker> {
+		this.worker ??= import("tesseract.js").then(({ default: tesseract }) =>
+			tesseract.createWorker(this.language, tesseract.OEM.LSTM_ONLY, {
+				langPath: this.langPath ?? TesseractOcrEngine.bundledLangPath(),
+				gzip: true,
+				// Do not write a copy of the language data to the working directory
+				cacheMethod: "none",
+			}),
+		);
+		return this.worker;
+	}
+}
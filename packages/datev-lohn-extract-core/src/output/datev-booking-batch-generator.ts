@@ -0,0 +1,719 @@
+import { ValidationError } from "../errors.js";
+
+import type { Money } from "../money.js";
+import type { PayrollPeriod } from "../period.js";
+import type {
+	BasePage,
+	DatevBooking,
+	LOGN17Correction,
+	LOGN17Deductions,
+	LOGN17Page,
+	PayrollStatement,
+	PersonnelGroup,
+} from "../types.js";
+
+/**
+ * Default accounts of the standard charts of accounts
+ */
+const DEFAULT_ACCOUNTS: Record<DatevChartOfAccounts, DatevAccountMapping> = {
+	SKR03: {
+		salaries: "4120",
+		payrollClearing: "1755",
+		netPay: "1740",
+		lohnsteuer: "1741",
+		solidaritaetszuschlag: "1741",
+		kirchensteuer: "1741",
+		krankenversicherung: "1742",
+		rentenversicherung: "1742",
+		arbeitslosenversicherung: "1742",
+		pflegeversicherung: "1742",
+	},
+	SKR04: {
+		salaries: "6020",
+		payrollClearing: "3790",
+		netPay: "3720",
+		lohnsteuer: "3730",
+		solidaritaetszuschlag: "3730",
+		kirchensteuer: "3730",
+		krankenversicherung: "3740",
+		rentenversicherung: "3740",
+		arbeitslosenversicherung: "3740",
+		pflegeversicherung: "3740",
+	},
+};
+
+/**
+ * Posting texts of the deductions
+ */
+const DEDUCTION_TEXTS: Record<DatevDeductionKind, string> = {
+	lohnsteuer: "Lohnsteuer",
+	solidaritaetszuschlag: "Solidaritätszuschlag",
+	kirchensteuer: "Kirchensteuer",
+	krankenversicherung: "KV-Beitrag AN",
+	rentenversicherung: "RV-Beitrag AN",
+	arbeitslosenversicherung: "AV-Beitrag AN",
+	pflegeversicherung: "PV-Beitrag AN",
+};
+
+/**
+ * Posting of a statement amount from the debit to the credit account
+ */
+interface Posting {
+	label: string;
+	debitAccount: string;
+	creditAccount: string;
+	amount: Money | null;
+}
+
+/**
+ * Accounts, period and document date of a statement's bookings
+ */
+interface BookingContext {
+	accounts: DatevAccountMapping;
+	period: PayrollPeriod;
+	date: string;
+}
+
+/**
+ * Column headers of the booking rows
+ * Only the leading columns are written; DATEV fills the remaining columns of
+ * the Buchungsstapel format with empty values.
+ */
+const BOOKING_COLUMNS = [
+	"Umsatz (ohne Soll/Haben-Kz)",
+	"Soll/Haben-Kennzeichen",
+	"WKZ Umsatz",
+	"Kurs",
+	"Basis-Umsatz",
+	"WKZ Basis-Umsatz",
+	"Konto",
+	"Gegenkonto (ohne BU-Schlüssel)",
+	"BU-Schlüssel",
+	"Belegdatum",
+	"Belegfeld 1",
+	"Belegfeld 2",
+	"Skonto",
+	"Buchungstext",
+];
+
+/**
+ * Monthly period of a statement (falling back to the period of its group)
+ *
+ * @returns Period, or null if unknown or annual
+ */
+function monthlyPeriod(
+	group: PersonnelGroup<BasePage>,
+	statementPeriod: PayrollPeriod | null,
+): PayrollPeriod | null {
+	const period = statementPeriod ?? group.period;
+	return period && !period.isAnnual() ? period : null;
+}
+
+/**
+ * Booking period and date (last day of the period) of a statement
+ *
+ * @returns Period and date, or null if the period is unknown
+ * @throws {ValidationError} If the period is outside of the fiscal year
+ */
+function bookingDate(
+	group: PersonnelGroup<BasePage>,
+	statementPeriod: PayrollPeriod | null,
+	fiscalYear: { start: string; end: string },
+): { period: PayrollPeriod; date: string } | null {
+	const period = monthlyPeriod(group, statementPeriod);
+	if (!period) {
+		return null;
+	}
+	const date = lastDayOfPeriod(period);
+	if (date < fiscalYear.start || date > fiscalYear.end) {
+		throw new ValidationError(
+			`Payroll period ${period.toISOString()} of personnel number ${group.personnelNumber} is outside of the fiscal year starting ${fiscalYear.start}`,
+		);
+	}
+	return { period, date };
+}
+
+/**
+ * Document number (Belegfeld 1), e.g. "LOHN-202510-12345"
+ */
+function documentNumber(
+	prefix: string,
+	period: PayrollPeriod,
+	personnelNumber: string,
+): string {
+	return `${prefix}-${period.toISOString().replace("-", "")}-${personnelNumber}`
+		.replace(/[^A-Za-z0-9$&%*+\-/]/g, "")
+		.slice(0, 36);
+}
+
+/**
+ * Quote a text field (embedded quotes are doubled)
+ */
+function text(value: string): string {
+	return `"${value.replace(/"/g, '""')}"`;
+}
+
+/**
+ * Check a calendar date in YYYY-MM-DD notation
+ */
+function isValidDate(date: string): boolean {
+	const time = Date.parse(`${date}T00:00:00Z`);
+	return (
+		/^\d{4}-\d{2}-\d{2}$/.test(date) &&
+		!Number.isNaN(time) &&
+		new Date(time).toISOString().startsWith(date)
+	);
+}
+
+/**
+ * Month of a date (YYYY-MM-DD) as "MM/YYYY"
+ */
+function monthLabel(date: string): string {
+	return `${date.slice(5, 7)}/${date.slice(0, 4)}`;
+}
+
+/**
+ * Convert a date from YYYY-MM-DD to YYYYMMDD
+ */
+function compactDate(date: string): string {
+	return date.replace(/-/g, "");
+}
+
+/**
+ * First and last day (YYYY-MM-DD) of the fiscal year starting at a date
+ */
+function fiscalYearRange(start: string): { start: string; end: string } {
+	const date = new Date(`${start}T00:00:00Z`);
+	date.setUTCFullYear(date.getUTCFullYear() + 1);
+	date.setUTCDate(date.getUTCDate() - 1);
+	return { start, end: date.toISOString().slice(0, 10) };
+}
+
+/**
+ * Last day (YYYY-MM-DD) of a monthly payroll period
+ */
+function lastDayOfPeriod(period: PayrollPeriod): string {
+	return new Date(Date.UTC(period.year, period.month ?? 12, 0))
+		.toISOString()
+		.slice(0, 10);
+}
+
+/**
+ * Standard chart of accounts (Standardkontenrahmen)
+ */
+export type DatevChartOfAccounts = "SKR03" | "SKR04";
+
+/**
+ * Deductions booked to their own liability account
+ */
+export type DatevDeductionKind = Exclude<
+	keyof LOGN17Deductions,
+	"steuerBrutto" | "svBrutto"
+>;
+
+/**
+ * Accounts of the payroll bookings
+ * Deductions are keyed like {@link LOGN17Deductions}.
+ */
+export interface DatevAccountMapping
+	extends Record<DatevDeductionKind, string> {
+	/** Salary expense (Gehälter) */
+	salaries: string;
+	/** Payroll clearing account (Lohn- und Gehaltsverrechnung) */
+	payrollClearing: string;
+	/** Net pay liabilities (Verbindlichkeiten aus Lohn und Gehalt) */
+	netPay: string;
+}
+
+/**
+ * Account configuration, as read from a JSON file
+ *
+ * @example
+ * ```json
+ * { "chartOfAccounts": "SKR04", "accounts": { "salaries": "6020", "netPay": "1800" } }
+ * ```
+ */
+export interface DatevAccountConfig {
+	/**
+	 * Chart of accounts providing the default accounts. Defaults to "SKR03".
+	 */
+	chartOfAccounts?: DatevChartOfAccounts;
+
+	/**
+	 * Accounts replacing the defaults of the chart of accounts
+	 */
+	accounts?: Partial<DatevAccountMapping>;
+}
+
+/**
+ * Options for generating a DATEV Buchungsstapel
+ */
+export interface DatevBookingBatchOptions extends DatevAccountConfig {
+	/**
+	 * Consultant number (Beraternummer), 1001-9999999
+	 */
+	consultantNumber: number;
+
+	/**
+	 * Client number (Mandantennummer), 1-99999
+	 */
+	clientNumber: number;
+
+	/**
+	 * Start of the fiscal year (Wirtschaftsjahresbeginn), YYYY-MM-DD.
+	 * All bookings must lie in this fiscal year.
+	 */
+	fiscalYearStart: string;
+
+	/**
+	 * Length of the general ledger accounts (Sachkontenlänge), 4-8. Defaults to 4.
+	 */
+	accountLength?: number;
+
+	/**
+	 * Name of the batch (max. 30 characters). Defaults to "Lohn" and the period range.
+	 */
+	description?: string;
+
+	/**
+	 * Initials of the person responsible (Diktatkürzel, max. 2 characters)
+	 */
+	initials?: string;
+
+	/**
+	 * Creation timestamp of the batch. Defaults to the current time.
+	 */
+	creationDateTime?: Date;
+}
+
+/**
+ * DATEV booking batch generator - generates the payroll bookings of personnel
+ * groups as DATEV EXTF Buchungsstapel (format version 700, category 21)
+ *
+ * Every regular salary statement (LOGN17) is booked via the payroll clearing
+ * account: the brutto as salary expense, each deduction to its liability
+ * account and the netto to the net pay liabilities. Amounts not covered by the
+ * extracted deductions (e.g. other net deductions) remain on the clearing
+ * account. Correction runs (Rückrechnungen) state the netto difference only,
+ * which is booked from the clearing account to the net pay liabilities like
+ * the SEPA transfers pay it out; the corrected brutto and deductions remain to
+ * be booked manually. Statements without a payroll period are skipped (see
+ * {@link DatevBookingBatchGenerator.findStatementsWithoutPeriod}).
+ */
+export class DatevBookingBatchGenerator {
+	/**
+	 * Parse an account configuration (e.g. the content of a JSON file)
+	 *
+	 * @param value - Parsed JSON value
+	 * @returns Account configuration
+	 * @throws {ValidationError} If the value is not a valid account configuration
+	 */
+	public static parseAccountConfig(value: unknown): DatevAccountConfig {
+		if (typeof value !== "object" || value === null || Array.isArray(value)) {
+			throw new ValidationError("Account configuration must be a JSON object");
+		}
+		const { chartOfAccounts, accounts } = value as Record<string, unknown>;
+
+		if (
+			chartOfAccounts !== undefined &&
+			chartOfAccounts !== "SKR03" &&
+			chartOfAccounts !== "SKR04"
+		) {
+			throw new ValidationError(
+				`Invalid chart of accounts: ${String(chartOfAccounts)}. Expected "SKR03" or "SKR04"`,
+			);
+		}
+		if (accounts === undefined) {
+			return { chartOfAccounts };
+		}
+		if (typeof accounts !== "object" || accounts === null) {
+			throw new ValidationError("accounts must be a JSON object");
+		}
+
+		const mapping: Partial<DatevAccountMapping> = {};
+		for (const [name, account] of Object.entries(accounts)) {
+			if (!Object.hasOwn(DEFAULT_ACCOUNTS.SKR03, name)) {
+				throw new ValidationError(
+					`Unknown account ${name}, expected one of ${Object.keys(DEFAULT_ACCOUNTS.SKR03).join(", ")}`,
+				);
+			}
+			if (typeof account !== "string" && typeof account !== "number") {
+				throw new ValidationError(`Account ${name} must be a number`);
+			}
+			mapping[name as keyof DatevAccountMapping] = String(account);
+		}
+		return { chartOfAccounts, accounts: mapping };
+	}
+
+	/**
+	 * Create the bookings of personnel groups
+	 *
+	 * @param groups - Personnel groups to book
+	 * @param options - Header and account options
+	 * @returns Bookings in group order
+	 * @throws {ValidationError} If groups or options are invalid, or a statement lies outside of the fiscal year
+	 */
+	public createBookings(
+		groups: PersonnelGroup<BasePage>[],
+		options: DatevBookingBatchOptions,
+	): DatevBooking[] {
+		// Validate input
+		if (!Array.isArray(groups)) {
+			throw new ValidationError("Groups must be an array");
+		}
+		this.validateBookingBatchOptions(options);
+
+		const accounts = this.resolveAccounts(options);
+		const fiscalYear = fiscalYearRange(options.fiscalYearStart);
+
+		return groups.flatMap((group) =>
+			group.statements.flatMap(({ totalsPage, correction }) => {
+				const booking = bookingDate(group, totalsPage.period, fiscalYear);
+				if (!booking) {
+					return [];
+				}
+
+				const context = { accounts, ...booking };
+				return correction
+					? this.createCorrectionBookings(group, correction, context)
+					: this.createStatementBookings(group, totalsPage, context);
+			}),
+		);
+	}
+
+	/**
+	 * Find the statements {@link createBookings} skips because their payroll
+	 * period is unknown (or annual), e.g. to report them as warnings
+	 *
+	 * @param groups - Personnel groups to book
+	 * @returns Skipped statements in group order
+	 */
+	public findStatementsWithoutPeriod(
+		groups: PersonnelGroup<BasePage>[],
+	): PayrollStatement[] {
+		return groups.flatMap((group) =>
+			group.statements.filter(
+				({ totalsPage }) => !monthlyPeriod(group, totalsPage.period),
+			),
+		);
+	}
+
+	/**
+	 * Generate a DATEV EXTF Buchungsstapel CSV.
+	 *
+	 * The file consists of the header record (consultant and client number,
+	 * fiscal year, account length, period range), the column headers and one
+	 * row per booking. It is encoded in Windows-1252 with CRLF line endings, as
+	 * expected by the DATEV import; characters outside of it become "?".
+	 *
+	 * @param groups - Personnel groups to book
+	 * @param options - Header and account options
+	 * @returns EXTF CSV file
+	 * @throws {ValidationError} If groups or options are invalid, or a statement lies outside of the fiscal year
+	 */
+	public generateBookingBatchCsv(
+		groups: PersonnelGroup<BasePage>[],
+		options: DatevBookingBatchOptions,
+	): Buffer {
+		return this.formatBookingBatchCsv(
+			this.createBookings(groups, options),
+			options,
+		);
+	}
+
+	/**
+	 * Write bookings created by {@link createBookings} as DATEV EXTF
+	 * Buchungsstapel CSV (see {@link generateBookingBatchCsv})
+	 *
+	 * @param bookings - Bookings to write
+	 * @param options - Header options the bookings were created with
+	 * @returns EXTF CSV file
+	 * @throws {ValidationError} If options are invalid
+	 */
+	public formatBookingBatchCsv(
+		bookings: DatevBooking[],
+		options: DatevBookingBatchOptions,
+	): Buffer {
+		this.validateBookingBatchOptions(options);
+
+		const fiscalYear = fiscalYearRange(options.fiscalYearStart);
+		const dates = bookings.map((b) => b.date).sort();
+		const dateFrom = dates[0] ?? fiscalYear.start;
+		const dateTo = dates[dates.length - 1] ?? fiscalYear.end;
+		const [monthFrom, monthTo] = [monthLabel(dateFrom), monthLabel(dateTo)];
+		const description =
+			options.description ??
+			(monthFrom === monthTo
+				? `Lohn ${monthFrom}`
+				: `Lohn ${monthFrom}-${monthTo}`);
+
+		// Erzeugt am: YYYYMMDDHHMMSSFFF
+		const createdAt = (options.creationDateTime ?? new Date())
+			.toISOString()
+			.replace(/\D/g, "")
+			.slice(0, 17);
+
+		const header = [
+			text("EXTF"),
+			"700",
+			"21",
+			text("Buchungsstapel"),
+			"13",
+			createdAt,
+			"",
+			text("RE"),
+			text(""),
+			text(""),
+			String(options.consultantNumber),
+			String(options.clientNumber),
+			compactDate(fiscalYear.start),
+			String(options.accountLength ?? 4),
+			compactDate(dateFrom),
+			compactDate(dateTo),
+			text(description),
+			text(options.initials ?? ""),
+			"1",
+			"0",
+			"0",
+			text("EUR"),
+			"",
+			text(""),
+			"",
+			"",
+			text((options.chartOfAccounts ?? "SKR03").slice(3)),
+			"",
+			"",
+			text(""),
+			text(""),
+		];
+
+		const rows = bookings.map((booking) => [
+			booking.amount.toDecimalString().replace(".", ","),
+			text(booking.debitCredit),
+			text(booking.amount.currency),
+			"",
+			"",
+			text(""),
+			booking.account,
+			booking.contraAccount,
+			text(""),
+			// Belegdatum: TTMM (the year follows from the fiscal year)
+			booking.date.slice(8, 10) + booking.date.slice(5, 7),
+			text(booking.documentNumber),
+			text(""),
+			"",
+			text(booking.text),
+		]);
+
+		const lines = [header, BOOKING_COLUMNS.map(text), ...rows].map((fields) =>
+			fields.join(";"),
+		);
+		return Buffer.from(
+			lines.join("\r\n").replace(/[^\x00-\xff]/g, "?") + "\r\n",
+			"latin1",
+		);
+	}
+
+	/**
+	 * Validate Buchungsstapel options without generating a file
+	 * Checks the header fields and the resolved accounts, so invalid options
+	 * fail before the payroll PDF is extracted.
+	 *
+	 * @param options - Header and account options
+	 * @throws {ValidationError} If the options are invalid
+	 */
+	public validateBookingBatchOptions(options: DatevBookingBatchOptions): void {
+		if (!options) {
+			throw new ValidationError("DATEV options are required");
+		}
+		const { consultantNumber, clientNumber } = options;
+		if (!consultantNumber) {
+			throw new ValidationError(
+				"Consultant number (Beraternummer) is required",
+			);
+		}
+		if (!clientNumber) {
+			throw new ValidationError("Client number (Mandantennummer) is required");
+		}
+		if (!options.fiscalYearStart) {
+			throw new ValidationError("Fiscal year start is required");
+		}
+
+		if (
+			!Number.isInteger(consultantNumber) ||
+			consultantNumber < 1001 ||
+			consultantNumber > 9999999
+		) {
+			throw new ValidationError(
+				`Invalid consultant number (Beraternummer): ${consultantNumber}. Expected 1001-9999999`,
+			);
+		}
+		if (
+			!Number.isInteger(clientNumber) ||
+			clientNumber < 1 ||
+			clientNumber > 99999
+		) {
+			throw new ValidationError(
+				`Invalid client number (Mandantennummer): ${clientNumber}. Expected 1-99999`,
+			);
+		}
+
+		if (!isValidDate(options.fiscalYearStart)) {
+			throw new ValidationError(
+				`Invalid fiscal year start: ${options.fiscalYearStart}. Expected YYYY-MM-DD`,
+			);
+		}
+
+		const accountLength = options.accountLength ?? 4;
+		if (
+			!Number.isInteger(accountLength) ||
+			accountLength < 4 ||
+			accountLength > 8
+		) {
+			throw new ValidationError(
+				`Invalid account length: ${accountLength}. Expected 4-8`,
+			);
+		}
+
+		if (options.description && options.description.length > 30) {
+			throw new ValidationError(
+				"Description must be at most 30 characters long",
+			);
+		}
+		if (options.initials && options.initials.length > 2) {
+			throw new ValidationError("Initials must be at most 2 characters long");
+		}
+
+		this.resolveAccounts(options);
+	}
+
+	/**
+	 * Create the bookings of a salary statement (all via the clearing account)
+	 */
+	private createStatementBookings(
+		group: PersonnelGroup<BasePage>,
+		statement: LOGN17Page,
+		context: BookingContext,
+	): DatevBooking[] {
+		const { accounts, period } = context;
+
+		return this.bookPostings(
+			group,
+			[
+				{
+					label: "Gehalt",
+					debitAccount: accounts.salaries,
+					creditAccount: accounts.payrollClearing,
+					amount: statement.brutto,
+				},
+				...(Object.keys(DEDUCTION_TEXTS) as DatevDeductionKind[]).map(
+					(kind) => ({
+						label: DEDUCTION_TEXTS[kind],
+						debitAccount: accounts.payrollClearing,
+						creditAccount: accounts[kind],
+						amount: statement.deductions[kind],
+					}),
+				),
+				{
+					label: "Nettolohn",
+					debitAccount: accounts.payrollClearing,
+					creditAccount: accounts.netPay,
+					amount: statement.netto,
+				},
+			],
+			{
+				...context,
+				documentNumber: documentNumber("LOHN", period, group.personnelNumber),
+			},
+		);
+	}
+
+	/**
+	 * Create the booking of a correction run (Rückrechnung): the netto
+	 * difference it pays out, dated on the run and labeled with the corrected
+	 * period
+	 */
+	private createCorrectionBookings(
+		group: PersonnelGroup<BasePage>,
+		correction: LOGN17Correction,
+		context: BookingContext,
+	): DatevBooking[] {
+		const { accounts } = context;
+		const period = correction.correctedPeriod ?? context.period;
+
+		return this.bookPostings(
+			group,
+			[
+				{
+					label: "Korrektur Nettolohn",
+					debitAccount: accounts.payrollClearing,
+					creditAccount: accounts.netPay,
+					amount: correction.nettoDifference,
+				},
+			],
+			{
+				...context,
+				period,
+				documentNumber: documentNumber(
+					"LOHNKORR",
+					period,
+					group.personnelNumber,
+				),
+			},
+		);
+	}
+
+	/**
+	 * Turn the postings of a statement into bookings, skipping missing and
+	 * zero amounts
+	 */
+	private bookPostings(
+		group: PersonnelGroup<BasePage>,
+		postings: Posting[],
+		context: BookingContext & { documentNumber: string },
+	): DatevBooking[] {
+		const { period, date, documentNumber } = context;
+
+		return postings
+			.filter(
+				(posting): posting is Posting & { amount: Money } =>
+					!!posting.amount && !posting.amount.isZero(),
+			)
+			.map(({ label, debitAccount, creditAccount, amount }) => ({
+				// Umsatz is always positive; negative amounts swap debit and credit
+				amount: amount.abs(),
+				debitCredit: amount.isNegative() ? "H" : "S",
+				account: debitAccount,
+				contraAccount: creditAccount,
+				date,
+				documentNumber,
+				text: `${label} ${period.formatGerman()} ${group.employeeName}`
+					.trim()
+					.slice(0, 60),
+				personnelNumber: group.personnelNumber,
+			}));
+	}
+
+	/**
+	 * Resolve the accounts of the chart of accounts and the overrides
+	 *
+	 * @throws {ValidationError} If an account does not have the account length
+	 */
+	private resolveAccounts(
+		options: DatevBookingBatchOptions,
+	): DatevAccountMapping {
+		const accountLength = options.accountLength ?? 4;
+		const accounts = {
+			...DEFAULT_ACCOUNTS[options.chartOfAccounts ?? "SKR03"],
+			...options.accounts,
+		};
+		for (const [name, account] of Object.entries(accounts)) {
+			if (!new RegExp(`^\\d{${accountLength}}$`).test(account)) {
+				throw new ValidationError(
+					`Invalid ${name} account: ${account}. Expected ${accountLength} digits`,
+				);
+			}
+		}
+		return accounts;
+	}
+}
@@ -1,2 +1,4 @@
 export * from "./pdf-generator.js";
 export * from "./sepa-transfers-generator.js";
+export * from "./payroll-summary-generator.js";
+export * from "./datev-booking-batch-generator.js";
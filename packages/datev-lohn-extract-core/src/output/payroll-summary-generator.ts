@@ -0,0 +1,405 @@
+import { strToU8, zipSync } from "fflate";
+
+import { ValidationError } from "../errors.js";
+import { Money } from "../money.js";
+
+import type { Redactor } from "../redaction/index.js";
+import type {
+	BasePage,
+	PayrollSummary,
+	PayrollSummaryRow,
+	PersonnelGroup,
+} from "../types.js";
+
+/**
+ * Columns of the summary (CSV header and XLSX column label)
+ */
+const COLUMNS = [
+	{ header: "personnel_number", label: "Personalnummer", width: 16 },
+	{ header: "employee_name", label: "Name", width: 28 },
+	{ header: "period", label: "Abrechnungszeitraum", width: 20 },
+	{ header: "is_correction", label: "Korrektur", width: 10 },
+	{ header: "brutto", label: "Brutto", width: 14 },
+	{ header: "netto", label: "Netto", width: 14 },
+	{ header: "netto_difference", label: "Netto-Differenz", width: 16 },
+	{ header: "iban", label: "IBAN", width: 28 },
+	{ header: "page_count", label: "Seiten", width: 8 },
+	{ header: "form_types", label: "Formulare", width: 16 },
+	{ header: "warnings", label: "Warnungen", width: 60 },
+] as const;
+
+/**
+ * Cell of the XLSX worksheet
+ */
+type XlsxCell = string | number | Money | null;
+
+/**
+ * Style indices of the XLSX stylesheet (see XLSX_STYLES)
+ */
+const XLSX_STYLE = { default: 0, amount: 1, bold: 2, boldAmount: 3 } as const;
+
+const XLSX_CONTENT_TYPES = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
+  <Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>
+  <Default Extension="xml" ContentType="application/xml"/>
+  <Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>
+  <Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>
+  <Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>
+</Types>
+`;
+
+const XLSX_ROOT_RELS = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+  <Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>
+</Relationships>
+`;
+
+const XLSX_WORKBOOK = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">
+  <sheets>
+    <sheet name="Lohnübersicht" sheetId="1" r:id="rId1"/>
+  </sheets>
+</workbook>
+`;
+
+const XLSX_WORKBOOK_RELS = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+  <Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/>
+  <Relationship Id="rId2" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>
+</Relationships>
+`;
+
+// Built-in number format 4 is "#,##0.00" (shown in the locale of the reader)
+const XLSX_STYLES = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">
+  <fonts count="2">
+    <font><sz val="11"/><name val="Calibri"/></font>
+    <font><b/><sz val="11"/><name val="Calibri"/></font>
+  </fonts>
+  <fills count="2">
+    <fill><patternFill patternType="none"/></fill>
+    <fill><patternFill patternType="gray125"/></fill>
+  </fills>
+  <borders count="1">
+    <border><left/><right/><top/><bottom/><diagonal/></border>
+  </borders>
+  <cellStyleXfs count="1">
+    <xf numFmtId="0" fontId="0" fillId="0" borderId="0"/>
+  </cellStyleXfs>
+  <cellXfs count="4">
+    <xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>
+    <xf numFmtId="4" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>
+    <xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/>
+    <xf numFmtId="4" fontId="1" fillId="0" borderId="0" xfId="0" applyNumberFormat="1" applyFont="1"/>
+  </cellXfs>
+</styleSheet>
+`;
+
+/**
+ * Column name of a zero-based column index ("A", "B", ..., "Z")
+ */
+function columnName(index: number): string {
+	return String.fromCharCode(65 + index);
+}
+
+/**
+ * Render a worksheet row
+ * Amounts are written as numbers with two decimals, empty cells are omitted.
+ */
+function xlsxRow(rowNumber: number, cells: XlsxCell[], bold: boolean): string {
+	const rendered = cells.map((cell, index) => {
+		const ref = `${columnName(index)}${rowNumber}`;
+		if (cell === null || cell === "") {
+			return "";
+		}
+		if (cell instanceof Money) {
+			const style = bold ? XLSX_STYLE.boldAmount : XLSX_STYLE.amount;
+			return `<c r="${ref}" s="${style}"><v>${cell.toDecimalString()}</v></c>`;
+		}
+		const style = bold ? XLSX_STYLE.bold : XLSX_STYLE.default;
+		if (typeof cell === "number") {
+			return `<c r="${ref}" s="${style}"><v>${cell}</v></c>`;
+		}
+		return `<c r="${ref}" s="${style}" t="inlineStr"><is><t xml:space="preserve">${escapeXml(cell)}</t></is></c>`;
+	});
+	return `    <row r="${rowNumber}">${rendered.join("")}</row>`;
+}
+
+/**
+ * Escape special characters for XML text and attribute content
+ */
+function escapeXml(value: string): string {
+	return value
+		.replace(/&/g, "&amp;")
+		.replace(/</g, "&lt;")
+		.replace(/>/g, "&gt;")
+		.replace(/"/g, "&quot;")
+		.replace(/'/g, "&apos;");
+}
+
+/**
+ * Options of the payroll summary generator
+ */
+export interface PayrollSummaryGeneratorOptions {
+	/**
+	 * Redact sensitive text in the summary rows.
+	 * Personnel number, name, IBAN and warnings are passed through the redactor.
+	 */
+	redactor?: Redactor;
+}
+
+/**
+ * Options for generating the payroll summary CSV
+ */
+export interface PayrollSummaryCsvOptions {
+	/**
+	 * Number format of the amounts. Defaults to "german".
+	 * German: semicolon delimiter, "1.234,56"; international: comma delimiter, "1234.56".
+	 */
+	numberFormat?: "german" | "international";
+}
+
+/**
+ * Payroll summary generator - generates an overview of all personnel groups
+ * as JSON, CSV or XLSX workbook
+ *
+ * Each personnel group becomes one row; the totals sum the known amounts.
+ * Brutto and netto are taken from the regular salary statement (LOGN17) of a
+ * group, the netto difference from its correction runs (as paid by the SEPA
+ * transfers).
+ */
+export class PayrollSummaryGenerator {
+	private readonly redactor: Redactor | null;
+
+	public constructor(options: PayrollSummaryGeneratorOptions = {}) {
+		this.redactor = options.redactor ?? null;
+	}
+
+	/**
+	 * Create the summary of personnel groups
+	 *
+	 * @param groups - Personnel groups to summarize
+	 * @returns Rows in group order and totals
+	 * @throws {ValidationError} If groups array is invalid
+	 */
+	public createSummary(groups: PersonnelGroup<BasePage>[]): PayrollSummary {
+		// Validate input
+		if (!Array.isArray(groups)) {
+			throw new ValidationError("Groups must be an array");
+		}
+
+		const rows = groups.map((group) => this.createRow(group));
+		const sum = (values: (Money | null)[]): Money =>
+			Money.sum(values.filter((value): value is Money => value !== null));
+
+		return {
+			rows,
+			totals: {
+				employees: new Set(rows.map((row) => row.personnelNumber)).size,
+				brutto: sum(rows.map((row) => row.brutto)),
+				netto: sum(rows.map((row) => row.netto)),
+				nettoDifference: sum(rows.map((row) => row.nettoDifference)),
+				pageCount: rows.reduce((total, row) => total + row.pageCount, 0),
+				warnings: rows.reduce((total, row) => total + row.warnings.length, 0),
+			},
+		};
+	}
+
+	/**
+	 * Generate the summary as JSON
+	 * Periods are ISO strings ("2025-03"), amounts decimal strings with currency.
+	 *
+	 * @param groups - Personnel groups to summarize
+	 * @returns Pretty-printed JSON document
+	 * @throws {ValidationError} If groups array is invalid
+	 */
+	public generateJson(groups: PersonnelGroup<BasePage>[]): string {
+		return JSON.stringify(this.createSummary(groups), null, 2);
+	}
+
+	/**
+	 * Generate the summary as CSV.
+	 *
+	 * Format: personnel_number,employee_name,period,is_correction,brutto,netto,netto_difference,iban,page_count,form_types,warnings
+	 * A final "TOTAL" row holds the sums. Form types and warnings are joined
+	 * with " | ".
+	 *
+	 * @param groups - Personnel groups to summarize
+	 * @param options - Output options
+	 * @returns CSV string with headers, data rows and the totals row
+	 * @throws {ValidationError} If groups array is invalid
+	 */
+	public generateCsv(
+		groups: PersonnelGroup<BasePage>[],
+		options: PayrollSummaryCsvOptions = {},
+	): string {
+		const { rows, totals } = this.createSummary(groups);
+		const german = (options.numberFormat ?? "german") === "german";
+		const delimiter = german ? ";" : ",";
+		const amount = (value: Money | null): string =>
+			value ? (german ? value.formatGerman() : value.toDecimalString()) : "";
+
+		const lines = [
+			COLUMNS.map((column) => column.header),
+			...rows.map((row) => [
+				row.personnelNumber,
+				row.employeeName,
+				row.period?.toISOString() ?? "",
+				row.isCorrection ? "true" : "false",
+				amount(row.brutto),
+				amount(row.netto),
+				amount(row.nettoDifference),
+				row.iban ?? "",
+				String(row.pageCount),
+				row.formTypes.join(" | "),
+				row.warnings.join(" | "),
+			]),
+			[
+				"TOTAL",
+				"",
+				"",
+				"",
+				amount(totals.brutto),
+				amount(totals.netto),
+				amount(totals.nettoDifference),
+				"",
+				String(totals.pageCount),
+				"",
+				String(totals.warnings),
+			],
+		];
+
+		return lines
+			.map((values) =>
+				values.map((v) => `"${v.replace(/"/g, '""')}"`).join(delimiter),
+			)
+			.join("\n");
+	}
+
+	/**
+	 * Generate the summary as XLSX workbook (Office Open XML)
+	 * The worksheet has German column labels, a frozen header row with filter
+	 * and a totals row; amounts are numeric cells.
+	 *
+	 * @param groups - Personnel groups to summarize
+	 * @returns XLSX file
+	 * @throws {ValidationError} If groups array is invalid
+	 */
+	public generateXlsx(groups: PersonnelGroup<BasePage>[]): Buffer {
+		const { rows, totals } = this.createSummary(groups);
+
+		const sheetRows = [
+			xlsxRow(
+				1,
+				COLUMNS.map((column) => column.label),
+				true,
+			),
+			...rows.map((row, index) =>
+				xlsxRow(
+					index + 2,
+					[
+						row.personnelNumber,
+						row.employeeName,
+						row.period?.formatGerman() ?? null,
+						row.isCorrection ? "ja" : "nein",
+						row.brutto,
+						row.netto,
+						row.nettoDifference,
+						row.iban,
+						row.pageCount,
+						row.formTypes.join(", "),
+						row.warnings.join("; "),
+					],
+					false,
+				),
+			),
+			xlsxRow(
+				rows.length + 2,
+				[
+					"Summe",
+					`${totals.employees} Mitarbeiter`,
+					null,
+					null,
+					totals.brutto,
+					totals.netto,
+					totals.nettoDifference,
+					null,
+					totals.pageCount,
+					null,
+					totals.warnings,
+				],
+				true,
+			),
+		];
+
+		const lastColumn = columnName(COLUMNS.length - 1);
+		const sheet = [
+			`<?xml version="1.0" encoding="UTF-8" standalone="yes"?>`,
+			`<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">`,
+			`  <sheetViews>`,
+			`    <sheetView workbookViewId="0">`,
+			`      <pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/>`,
+			`    </sheetView>`,
+			`  </sheetViews>`,
+			`  <cols>`,
+			...COLUMNS.map(
+				(column, index) =>
+					`    <col min="${index + 1}" max="${index + 1}" width="${column.width}" customWidth="1"/>`,
+			),
+			`  </cols>`,
+			`  <sheetData>`,
+			...sheetRows,
+			`  </sheetData>`,
+			`  <autoFilter ref="A1:${lastColumn}${rows.length + 1}"/>`,
+			`</worksheet>`,
+		].join("\n");
+
+		const zip = zipSync({
+			"[Content_Types].xml": strToU8(XLSX_CONTENT_TYPES),
+			"_rels/.rels": strToU8(XLSX_ROOT_RELS),
+			"xl/workbook.xml": strToU8(XLSX_WORKBOOK),
+			"xl/_rels/workbook.xml.rels": strToU8(XLSX_WORKBOOK_RELS),
+			"xl/styles.xml": strToU8(XLSX_STYLES),
+			"xl/worksheets/sheet1.xml": strToU8(sheet),
+		});
+		return Buffer.from(zip.buffer, zip.byteOffset, zip.byteLength);
+	}
+
+	/**
+	 * Create the summary row of a personnel group
+	 * Text cells are redacted if a redactor is configured.
+	 */
+	private createRow(group: PersonnelGroup<BasePage>): PayrollSummaryRow {
+		// Same amounts as the SEPA transfers: the netto of every regular
+		// statement and the differences of all correction runs
+		const regular = group.statements
+			.filter((s) => !s.correction)
+			.map((s) => s.totalsPage);
+		const sum = (values: Array<Money | null>): Money | null => {
+			const amounts = values.filter((value): value is Money => value !== null);
+			return amounts.length > 0 ? Money.sum(amounts) : null;
+		};
+
+		const iban = (regular[0] ?? group.statements[0]?.totalsPage)?.iban ?? null;
+		const text = (value: string): string =>
+			this.redactor ? this.redactor.redactText(value) : value;
+
+		return {
+			personnelNumber: text(group.personnelNumber),
+			employeeName: text(group.employeeName),
+			period: group.period,
+			isCorrection: group.isCorrection,
+			brutto: sum(regular.map((page) => page.brutto)),
+			netto: sum(regular.map((page) => page.netto)),
+			nettoDifference: sum(
+				group.statements.map((s) => s.correction?.nettoDifference ?? null),
+			),
+			iban: iban && text(iban),
+			pageCount: group.pages.length,
+			formTypes: [...new Set(group.pages.map((page) => page.formType))],
+			warnings: group.pages.flatMap((page) =>
+				page.warnings.map((warning) => text(warning.message)),
+			),
+		};
+	}
+}
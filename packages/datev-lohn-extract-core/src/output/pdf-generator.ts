@@ -1,52 +1,246 @@
-import { PDFDocument } from "pdf-lib";
+import {
+	EncryptedPDFError,
+	PDFDocument,
+	PDFHexString,
+	PDFName,
+} from "@cantoo/pdf-lib";
 
-import { ValidationError, PdfGenerationError } from "../errors.js";
+import {
+	IncorrectPasswordError,
+	PasswordRequiredError,
+	ValidationError,
+	PdfGenerationError,
+} from "../errors.js";
 
+import type { PayrollPeriod } from "../period.js";
+import type { Redactor } from "../redaction/index.js";
 import type {
+	BasePage,
 	PersonnelGroup,
 	CompanyGroup,
 	GeneratedPersonnelPdf,
 	GeneratedCompanyPdf,
 } from "../types.js";
+import type { SecurityOptions } from "@cantoo/pdf-lib";
+
+/**
+ * Placeholders of a user password template
+ */
+const PASSWORD_PLACEHOLDERS = [
+	"personnelNumber",
+	"employeeName",
+	"year",
+	"month",
+	"birthDate",
+] as const;
+
+/**
+ * Document information derived from a group
+ */
+interface GroupDocumentInfo {
+	title: string;
+	keywords: Array<string | null>;
+}
+
+/**
+ * Bookmark titles of the known form types (other form types use their name)
+ */
+const FORM_TITLES: Record<string, string> = {
+	LOGN17: "Lohnabrechnung",
+	LOMS05: "Meldebescheinigung zur Sozialversicherung",
+	UNKNOWN: "Sonstige Unterlagen",
+};
+
+/**
+ * Producer entry of generated PDFs (instead of the pdf-lib default)
+ */
+const PRODUCER = "datev-lohn-extract";
+
+/**
+ * Keywords of a period: year and German month name
+ */
+function periodKeywords(period: PayrollPeriod | null): Array<string | null> {
+	return period ? [String(period.year), period.germanMonthName()] : [];
+}
+
+/**
+ * Bookmark title of a form type
+ */
+function formTitle(formType: string): string {
+	return FORM_TITLES[formType] ?? formType;
+}
+
+/**
+ * Options for reading the source PDF
+ */
+export interface PdfSourceOptions {
+	/**
+	 * User password of an encrypted source PDF.
+	 * Generated PDFs contain the decrypted pages.
+	 */
+	password?: string;
+}
+
+/**
+ * Source of the user password of a personnel PDF
+ * - map: password per personnel number
+ * - template: placeholders `{personnelNumber}`, `{employeeName}`, `{year}`,
+ *   `{month}` and `{birthDate}` (DDMMYYYY, from the employee master data) are
+ *   replaced with the values of the personnel group
+ */
+export type PdfUserPasswordSource =
+	| { type: "map"; passwords: Record<string, string> }
+	| { type: "template"; template: string };
+
+/**
+ * PDF standard security for personnel PDFs
+ */
+export interface PdfEncryptionOptions {
+	/**
+	 * Per-employee password required to open a personnel PDF
+	 */
+	userPassword: PdfUserPasswordSource;
+
+	/**
+	 * Password granting full access (e.g. to remove the protection)
+	 */
+	ownerPassword: string;
+
+	/**
+	 * Cipher of the encrypted PDFs. Defaults to AES-256.
+	 */
+	algorithm?: "AES-128" | "AES-256";
+}
+
+/**
+ * Document information of generated PDFs
+ * Title, subject and keywords are derived from the group and its pages.
+ */
+export interface PdfDocumentInfoOptions {
+	/**
+	 * Author, e.g. the company or payroll office.
+	 * Defaults to the author of the source PDF.
+	 */
+	author?: string;
+
+	/**
+	 * Application that created the original document.
+	 * Defaults to the creator of the source PDF.
+	 */
+	creator?: string;
+}
+
+export interface PdfGeneratorOptions {
+	/**
+	 * Encrypt personnel PDFs with a per-employee user password.
+	 * Company PDFs are not encrypted.
+	 */
+	encryption?: PdfEncryptionOptions;
+
+	/**
+	 * Author and creator of the generated PDFs
+	 */
+	documentInfo?: PdfDocumentInfoOptions;
+
+	/**
+	 * Generate PDF/A-2b documents for long-term archiving (XMP metadata,
+	 * sRGB output intent). Cannot be combined with encryption, as PDF/A
+	 * forbids encrypted documents. Fonts must be embedded in the source PDF.
+	 */
+	pdfA?: boolean;
+
+	/**
+	 * Redact sensitive text in personnel and company PDFs.
+	 * Pages with matches are replaced by rasterized images with the matching
+	 * text blacked out, so the generated PDF contains none of their text.
+	 */
+	redactor?: Redactor;
+}
 
 /**
  * PDF generator - creates PDF buffers from grouped pages
  */
 export class PdfGenerator {
+	private readonly encryption: PdfEncryptionOptions | null;
+	private readonly redactor: Redactor | null;
+	private readonly documentInfo: PdfDocumentInfoOptions;
+	private readonly pdfA: boolean;
+
+	/**
+	 * @throws {ValidationError} If the encryption options are invalid or combined with PDF/A
+	 */
+	public constructor(options: PdfGeneratorOptions = {}) {
+		this.encryption = options.encryption ?? null;
+		this.redactor = options.redactor ?? null;
+		this.documentInfo = options.documentInfo ?? {};
+		this.pdfA = options.pdfA ?? false;
+		if (this.encryption) {
+			this.validateEncryption(this.encryption);
+		}
+		if (this.encryption && this.pdfA) {
+			throw new ValidationError("PDF/A documents cannot be encrypted");
+		}
+	}
+
 	/**
 	 * Generate a PDF buffer for a personnel group
 	 *
 	 * @param group - Personnel group to generate PDF for
 	 * @param sourcePdfBuffer - Original PDF buffer
+	 * @param sourceOptions - Password of an encrypted source PDF
 	 * @returns PDF buffer and metadata
-	 * @throws {ValidationError} If group or buffer is invalid
+	 * @throws {ValidationError} If group or buffer is invalid, or no user password is configured for the group
+	 * @throws {PasswordRequiredError} If the source PDF is encrypted and no password was given
+	 * @throws {IncorrectPasswordError} If the password is incorrect
 	 * @throws {PdfGenerationError} If PDF generation fails
 	 */
 	public async generatePersonnelPdf(
-		group: PersonnelGroup,
+		group: PersonnelGroup<BasePage>,
 		sourcePdfBuffer: Buffer,
+		sourceOptions: PdfSourceOptions = {},
 	): Promise<GeneratedPersonnelPdf> {
 		// Validate inputs
 		this.validatePersonnelGroup(group);
 		this.validatePdfBuffer(sourcePdfBuffer);
+		const security = this.encryption
+			? this.createSecurityOptions(group, this.encryption)
+			: null;
 
 		try {
 			// Create the new PDF.
-			const pdfBytes = await this.createNewPdf(
-				await PDFDocument.load(sourcePdfBuffer),
-				group.pages.map((p) => p.pageIndex),
-			);
+			const pdfBytes = await this.createNewPdf(sourcePdfBuffer, group.pages, {
+				source: sourceOptions,
+				security,
+				info: {
+					title: [
+						`Lohnunterlagen ${group.employeeName} (${group.personnelNumber})`,
+						group.period?.formatGerman() ?? null,
+						group.isCorrection ? "Korrektur" : null,
+					]
+						.filter(Boolean)
+						.join(" – "),
+					keywords: [
+						group.personnelNumber,
+						group.employeeName,
+						...periodKeywords(group.period),
+					],
+				},
+			});
 
 			return {
 				data: Buffer.from(pdfBytes),
 				pageCount: group.pages.length,
 				personnelNumber: group.personnelNumber,
 				employeeName: group.employeeName,
-				dateInfo: group.dateInfo,
+				period: group.period,
+				isCorrection: group.isCorrection,
+				isEncrypted: security !== null,
 			};
 		} catch (error) {
 			if (
 				error instanceof ValidationError ||
+				error instanceof PasswordRequiredError ||
+				error instanceof IncorrectPasswordError ||
 				error instanceof PdfGenerationError
 			) {
 				throw error;
@@ -63,13 +257,17 @@ export class PdfGenerator {
 	 *
 	 * @param group - Company group to generate PDF for
 	 * @param sourcePdfBuffer - Original PDF buffer
+	 * @param sourceOptions - Password of an encrypted source PDF
 	 * @returns PDF buffer and metadata
 	 * @throws {ValidationError} If group or buffer is invalid
+	 * @throws {PasswordRequiredError} If the source PDF is encrypted and no password was given
+	 * @throws {IncorrectPasswordError} If the password is incorrect
 	 * @throws {PdfGenerationError} If PDF generation fails
 	 */
 	public async generateCompanyPdf(
-		group: CompanyGroup,
+		group: CompanyGroup<BasePage>,
 		sourcePdfBuffer: Buffer,
+		sourceOptions: PdfSourceOptions = {},
 	): Promise<GeneratedCompanyPdf> {
 		// Validate inputs
 		this.validateCompanyGroup(group);
@@ -77,19 +275,27 @@ export class PdfGenerator {
 
 		try {
 			// Create the new PDF.
-			const pdfBytes = await this.createNewPdf(
-				await PDFDocument.load(sourcePdfBuffer),
-				group.pages.map((p) => p.pageIndex),
-			);
+			const pdfBytes = await this.createNewPdf(sourcePdfBuffer, group.pages, {
+				source: sourceOptions,
+				security: null,
+				info: {
+					title: ["Firmenunterlagen", group.period?.formatGerman()]
+						.filter(Boolean)
+						.join(" – "),
+					keywords: periodKeywords(group.period),
+				},
+			});
 
 			return {
 				data: Buffer.from(pdfBytes),
 				pageCount: group.pages.length,
-				dateInfo: group.dateInfo,
+				period: group.period,
 			};
 		} catch (error) {
 			if (
 				error instanceof ValidationError ||
+				error instanceof PasswordRequiredError ||
+				error instanceof IncorrectPasswordError ||
 				error instanceof PdfGenerationError
 			) {
 				throw error;
@@ -102,23 +308,274 @@ export class PdfGenerator {
 	}
 
 	/**
-	 * Create a new PDF from a source document and a list of page indices
+	 * Load the source PDF, decrypting it if a password is needed
+	 * PDFs restricted by an owner password only open with an empty user password.
+	 */
+	private async loadSourcePdf(
+		sourcePdfBuffer: Buffer,
+		{ password }: PdfSourceOptions,
+	): Promise<PDFDocument> {
+		try {
+			return await PDFDocument.load(sourcePdfBuffer, {
+				password: password ?? "",
+			});
+		} catch (error) {
+			const isPasswordError =
+				error instanceof EncryptedPDFError ||
+				(error instanceof Error && error.message === "Password incorrect");
+			if (!isPasswordError) {
+				throw error;
+			}
+			throw password
+				? new IncorrectPasswordError()
+				: new PasswordRequiredError();
+		}
+	}
+
+	/**
+	 * Create a new PDF from the source PDF and the pages of a group
+	 * Pages with redacted text are added as images, the other pages are copied.
+	 * The PDF gets document information and bookmarks, and is converted to
+	 * PDF/A or encrypted if configured.
 	 */
 	private async createNewPdf(
-		sourceDocument: PDFDocument,
-		includedIndices: number[],
+		sourcePdfBuffer: Buffer,
+		pages: BasePage[],
+		{
+			source,
+			security,
+			info,
+		}: {
+			source: PdfSourceOptions;
+			security: SecurityOptions | null;
+			info: GroupDocumentInfo;
+		},
 	): Promise<Uint8Array> {
-		// Create new PDF
-		const newPdf = await PDFDocument.create();
+		const includedIndices = pages.map((p) => p.pageIndex);
+		const sourceDocument = await this.loadSourcePdf(sourcePdfBuffer, source);
+		const redactedPages = this.redactor
+			? await this.redactor.renderRedactedPages(
+					sourcePdfBuffer,
+					includedIndices,
+					source.password,
+				)
+			: new Map<number, never>();
 
-		// Copy pages
-		const copiedPages = await newPdf.copyPages(sourceDocument, includedIndices);
-		copiedPages.forEach((page) => newPdf.addPage(page));
+		// Create new PDF (without the pdf-lib producer and dates)
+		const newPdf = await PDFDocument.create({ updateMetadata: false });
+
+		// Copy pages (redacted pages are never copied, so none of their text
+		// objects end up in the new PDF)
+		const copiedPages = await newPdf.copyPages(
+			sourceDocument,
+			includedIndices.filter((index) => !redactedPages.has(index)),
+		);
+		for (const index of includedIndices) {
+			const image = redactedPages.get(index);
+			if (!image) {
+				newPdf.addPage(copiedPages.shift());
+				continue;
+			}
+			const page = newPdf.addPage([image.width, image.height]);
+			page.drawImage(await newPdf.embedPng(image.data), {
+				x: 0,
+				y: 0,
+				width: image.width,
+				height: image.height,
+			});
+		}
+
+		this.setDocumentInfo(newPdf, sourceDocument, { ...info, pages });
+		this.addBookmarks(newPdf, pages);
+
+		if (this.pdfA) {
+			newPdf.convertToPDFA({ conformance: "2B" });
+		}
+		if (security) {
+			newPdf.encrypt(security);
+		}
 
 		// Generate PDF bytes
 		return await newPdf.save();
 	}
 
+	/**
+	 * Set the document information (title, subject, keywords, author, dates)
+	 * The creation date is taken from the source PDF, as the generated PDF
+	 * holds the same documents.
+	 */
+	private setDocumentInfo(
+		newPdf: PDFDocument,
+		sourceDocument: PDFDocument,
+		{ title, keywords, pages }: GroupDocumentInfo & { pages: BasePage[] },
+	): void {
+		const formTypes = [...new Set(pages.map((page) => page.formType))];
+
+		newPdf.setTitle(title, { showInWindowTitleBar: true });
+		newPdf.setSubject(formTypes.map(formTitle).join(", "));
+		newPdf.setKeywords(
+			[...keywords, ...formTypes].filter((keyword) => keyword !== null),
+		);
+		newPdf.setLanguage("de-DE");
+		newPdf.setProducer(PRODUCER);
+
+		const author = this.documentInfo.author ?? sourceDocument.getAuthor();
+		if (author) {
+			newPdf.setAuthor(author);
+		}
+		const creator = this.documentInfo.creator ?? sourceDocument.getCreator();
+		if (creator) {
+			newPdf.setCreator(creator);
+		}
+
+		const now = new Date();
+		newPdf.setCreationDate(sourceDocument.getCreationDate() ?? now);
+		newPdf.setModificationDate(now);
+	}
+
+	/**
+	 * Add an outline with one bookmark per form
+	 * Consecutive pages of the same form type belong to the same form.
+	 */
+	private addBookmarks(newPdf: PDFDocument, pages: BasePage[]): void {
+		const forms: Array<{ formType: string; start: number; end: number }> = [];
+		pages.forEach((page, index) => {
+			const last = forms[forms.length - 1];
+			if (last && last.formType === page.formType) {
+				last.end = index;
+			} else {
+				forms.push({ formType: page.formType, start: index, end: index });
+			}
+		});
+
+		const { context } = newPdf;
+		const outlinesRef = context.nextRef();
+		const itemRefs = forms.map(() => context.nextRef());
+
+		forms.forEach((form, i) => {
+			const pageRange =
+				form.start === form.end
+					? `Seite ${form.start + 1}`
+					: `Seiten ${form.start + 1}–${form.end + 1}`;
+			const item = context.obj({
+				Title: PDFHexString.fromText(
+					`${formTitle(form.formType)} (${pageRange})`,
+				),
+				Parent: outlinesRef,
+				Dest: [newPdf.getPage(form.start).ref, "Fit"],
+			});
+			const prev = itemRefs[i - 1];
+			const next = itemRefs[i + 1];
+			if (prev) {
+				item.set(PDFName.of("Prev"), prev);
+			}
+			if (next) {
+				item.set(PDFName.of("Next"), next);
+			}
+			context.assign(itemRefs[i]!, item);
+		});
+
+		context.assign(
+			outlinesRef,
+			context.obj({
+				Type: "Outlines",
+				First: itemRefs[0],
+				Last: itemRefs[itemRefs.length - 1],
+				Count: itemRefs.length,
+			}),
+		);
+		newPdf.catalog.set(PDFName.of("Outlines"), outlinesRef);
+		newPdf.catalog.set(PDFName.of("PageMode"), PDFName.of("UseOutlines"));
+	}
+
+	/**
+	 * Build the security options of a personnel PDF
+	 * Employees may print the PDF, but not modify it or copy its content.
+	 *
+	 * @throws {ValidationError} If no user password can be derived for the group
+	 */
+	private createSecurityOptions(
+		group: PersonnelGroup<BasePage>,
+		encryption: PdfEncryptionOptions,
+	): SecurityOptions {
+		return {
+			userPassword: this.resolveUserPassword(group, encryption.userPassword),
+			ownerPassword: encryption.ownerPassword,
+			algorithm: encryption.algorithm ?? "AES-256",
+			permissions: {
+				printing: "highResolution",
+				contentAccessibility: true,
+			},
+		};
+	}
+
+	/**
+	 * Derive the user password of a personnel group from its source
+	 *
+	 * @throws {ValidationError} If the password is missing or a placeholder has no value
+	 */
+	private resolveUserPassword(
+		group: PersonnelGroup<BasePage>,
+		source: PdfUserPasswordSource,
+	): string {
+		if (source.type === "map") {
+			const password = source.passwords[group.personnelNumber];
+			if (!password) {
+				throw new ValidationError(
+					`No user password for personnel number ${group.personnelNumber}`,
+				);
+			}
+			return password;
+		}
+
+		const values: Record<
+			(typeof PASSWORD_PLACEHOLDERS)[number],
+			string | null
+		> = {
+			personnelNumber: group.personnelNumber,
+			employeeName: group.employeeName,
+			year: group.period ? String(group.period.year) : null,
+			month: group.period?.germanMonthName() ?? null,
+			birthDate:
+				group.employee?.birthDate?.split("-").reverse().join("") ?? null,
+		};
+
+		return source.template.replace(/\{(\w+)\}/g, (_match, name: string) => {
+			const value = values[name as keyof typeof values];
+			if (!value) {
+				throw new ValidationError(
+					`No value for password placeholder {${name}} of personnel number ${group.personnelNumber}`,
+				);
+			}
+			return value;
+		});
+	}
+
+	/**
+	 * Validate encryption options
+	 */
+	private validateEncryption(encryption: PdfEncryptionOptions): void {
+		if (!encryption.ownerPassword) {
+			throw new ValidationError("Owner password is required for encryption");
+		}
+
+		const { userPassword } = encryption;
+		if (userPassword.type === "template") {
+			if (!userPassword.template) {
+				throw new ValidationError("User password template must not be empty");
+			}
+			for (const [, name] of userPassword.template.matchAll(/\{(\w+)\}/g)) {
+				if (
+					!PASSWORD_PLACEHOLDERS.some((placeholder) => placeholder === name)
+				) {
+					throw new ValidationError(
+						`Unknown password placeholder {${name}}, expected one of ${PASSWORD_PLACEHOLDERS.map((p) => `{${p}}`).join(", ")}`,
+					);
+				}
+			}
+		}
+	}
+
 	/**
 	 * Validate PDF buffer
 	 */
@@ -134,7 +591,7 @@ export class PdfGenerator {
 	/**
 	 * Validate personnel group
 	 */
-	private validatePersonnelGroup(group: PersonnelGroup): void {
+	private validatePersonnelGroup(group: PersonnelGroup<BasePage>): void {
 		if (!group) {
 			throw new ValidationError("Personnel group is required");
 		}
@@ -149,7 +606,7 @@ export class PdfGenerator {
 	/**
 	 * Validate company group
 	 */
-	private validateCompanyGroup(group: CompanyGroup): void {
+	private validateCompanyGroup(group: CompanyGroup<BasePage>): void {
 		if (!group) {
 			throw new ValidationError("Company group is required");
 		}
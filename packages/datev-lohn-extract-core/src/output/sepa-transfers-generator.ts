@@ -1,22 +1,132 @@
+import { BankDirectory, isValidIban, validateIban } from "../banking/index.js";
 import { ValidationError } from "../errors.js";
-import { isLOGN17Page } from "../type-guards.js";
+import { Money } from "../money.js";
 
-import type { PersonnelGroup } from "../types.js";
+import type { PayrollPeriod } from "../period.js";
+import type { BasePage, LOGN17Page, PersonnelGroup } from "../types.js";
 
 /**
- * SEPA transfer generator - generates SEPA transfer data as CSV string
+ * A single credit transfer derived from a personnel group
+ */
+interface SepaTransfer {
+	beneficiaryName: string;
+	iban: string;
+	amount: Money | null;
+	reference: string;
+	endToEndId: string;
+}
+
+/**
+ * XML namespace of the pain.001.001.09 message
+ */
+const PAIN_001_NAMESPACE = "urn:iso:std:iso:20022:tech:xsd:pain.001.001.09";
+
+/**
+ * Check a calendar date in YYYY-MM-DD notation (e.g. rejects 2025-02-31)
+ */
+function isValidDate(date: string): boolean {
+	const time = Date.parse(`${date}T00:00:00Z`);
+	return (
+		/^\d{4}-\d{2}-\d{2}$/.test(date) &&
+		!Number.isNaN(time) &&
+		new Date(time).toISOString().startsWith(date)
+	);
+}
+
+/**
+ * Escape special characters for XML text and attribute content
+ */
+function escapeXml(value: string): string {
+	return value
+		.replace(/&/g, "&amp;")
+		.replace(/</g, "&lt;")
+		.replace(/>/g, "&gt;")
+		.replace(/"/g, "&quot;")
+		.replace(/'/g, "&apos;");
+}
+
+/**
+ * Truncate a string to a maximum length
+ */
+function truncate(value: string, maxLength: number): string {
+	return value.length > maxLength ? value.slice(0, maxLength) : value;
+}
+
+/**
+ * Options shared by all SEPA transfer outputs
+ */
+export interface SepaTransfersOptions {
+	/**
+	 * Include transfers whose IBAN fails the checksum validation.
+	 * Defaults to false (invalid IBANs are excluded).
+	 */
+	allowInvalidIbans?: boolean;
+}
+
+/**
+ * Options for generating an ISO 20022 pain.001.001.09 credit transfer file
+ */
+export interface SepaPain001Options extends SepaTransfersOptions {
+	/**
+	 * Name of the debtor (the paying company)
+	 */
+	debtorName: string;
+
+	/**
+	 * IBAN of the debtor account
+	 */
+	debtorIban: string;
+
+	/**
+	 * BIC of the debtor bank. If omitted, it is looked up from the debtor IBAN;
+	 * if that fails, "NOTPROVIDED" is used (IBAN-only).
+	 */
+	debtorBic?: string;
+
+	/**
+	 * Requested execution date (YYYY-MM-DD). Defaults to the creation date.
+	 */
+	requestedExecutionDate?: string;
+
+	/**
+	 * Whether the bank should book all transfers as a single debit.
+	 * Defaults to true.
+	 */
+	batchBooking?: boolean;
+
+	/**
+	 * Unique message identification (max. 35 characters).
+	 * Defaults to an identifier derived from the creation time.
+	 */
+	messageId?: string;
+
+	/**
+	 * Creation timestamp of the message. Defaults to the current time.
+	 */
+	creationDateTime?: Date;
+}
+
+/**
+ * SEPA transfer generator - generates SEPA transfer data as CSV or pain.001 XML
  */
 export class SepaTransfersGenerator {
 	/**
 	 * Generate SEPA transfer CSV data for salary payments.
 	 *
 	 * Format: beneficiary_name,iban,amount,currency,reference
+	 * Transfers with an invalid IBAN are excluded unless explicitly allowed.
+	 * Correction runs are listed with their difference amount and a
+	 * "Korrektur Gehalt" reference.
 	 *
 	 * @param groups - Personnel groups to generate SEPA transfers for
+	 * @param options - Output options
 	 * @returns CSV string with headers and data rows
 	 * @throws {ValidationError} If groups array is invalid
 	 */
-	public generateSepaTransfersCsv(groups: PersonnelGroup[]): string {
+	public generateSepaTransfersCsv(
+		groups: PersonnelGroup<BasePage>[],
+		options: SepaTransfersOptions = {},
+	): string {
 		// Validate input
 		if (!Array.isArray(groups)) {
 			throw new ValidationError("Groups must be an array");
@@ -27,29 +137,15 @@ export class SepaTransfersGenerator {
 		const csvLines: string[] = [headers];
 
 		// Iterate over the groups and extract the payment information.
-		for (const group of groups) {
-			// Find LOGN17 page to extract financial data
-			const page = group.pages.find(isLOGN17Page);
-			if (!page) {
-				continue;
-			}
-
-			// Extract data
-			const beneficiaryName = group.employeeName || "";
-			const iban = page?.iban || "";
-			const amount = page?.netto || "";
-			const currency = "EUR";
-
-			const month = group.dateInfo.month || "";
-			const year = group.dateInfo.year || "";
-
-			const reference =
-				month && year
-					? `Gehalt ${month} ${year} (${group.personnelNumber})`
-					: `Gehalt (${group.personnelNumber})`;
-
+		for (const transfer of this.collectTransfers(groups, options)) {
 			csvLines.push(
-				[beneficiaryName, iban, amount, currency, reference]
+				[
+					transfer.beneficiaryName,
+					transfer.iban,
+					transfer.amount?.toDecimalString() ?? "",
+					transfer.amount?.currency ?? "EUR",
+					transfer.reference,
+				]
 					.map((v) => `"${v}"`)
 					.join(","),
 			);
@@ -57,4 +153,262 @@ export class SepaTransfersGenerator {
 
 		return csvLines.join("\n");
 	}
+
+	/**
+	 * Generate an ISO 20022 pain.001.001.09 credit transfer file for salary payments.
+	 *
+	 * All transfers are placed in a single payment information block with
+	 * category purpose SALA. Groups without IBAN or a positive netto amount
+	 * are skipped, as they cannot be paid. Invalid IBANs are skipped unless
+	 * explicitly allowed. Correction runs are paid with their positive
+	 * difference only; overpayments (negative differences) are skipped.
+	 *
+	 * @param groups - Personnel groups to generate SEPA transfers for
+	 * @param options - Debtor and execution options
+	 * @returns pain.001.001.09 XML document
+	 * @throws {ValidationError} If groups or options are invalid
+	 */
+	public generatePain001Xml(
+		groups: PersonnelGroup<BasePage>[],
+		options: SepaPain001Options,
+	): string {
+		// Validate input
+		if (!Array.isArray(groups)) {
+			throw new ValidationError("Groups must be an array");
+		}
+		this.validatePain001Options(options);
+
+		const creationDateTime = options.creationDateTime ?? new Date();
+		const creationTimestamp = creationDateTime.toISOString().slice(0, 19);
+		const messageId =
+			options.messageId ??
+			`DATEV-LOHN-${creationTimestamp.replace(/[-:T]/g, "")}`;
+		const executionDate =
+			options.requestedExecutionDate ?? creationTimestamp.slice(0, 10);
+		const batchBooking = options.batchBooking ?? true;
+		const debtorIban = validateIban(options.debtorIban).iban;
+		const debtorBic =
+			options.debtorBic ??
+			BankDirectory.getDefault().lookupIban(debtorIban)?.bic ??
+			null;
+
+		// Only transfers with an IBAN and a positive amount can be executed
+		const transfers = this.collectTransfers(groups, options).filter(
+			(t): t is SepaTransfer & { amount: Money } =>
+				!!t.iban && !!t.amount?.isPositive(),
+		);
+
+		const controlSum = Money.sum(
+			transfers.map((t) => t.amount),
+		).toDecimalString();
+
+		const debtorAgent = debtorBic
+			? `<BICFI>${escapeXml(debtorBic.toUpperCase())}</BICFI>`
+			: "<Othr><Id>NOTPROVIDED</Id></Othr>";
+
+		const lines: string[] = [
+			`<?xml version="1.0" encoding="UTF-8"?>`,
+			`<Document xmlns="${PAIN_001_NAMESPACE}" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance">`,
+			`  <CstmrCdtTrfInitn>`,
+			`    <GrpHdr>`,
+			`      <MsgId>${escapeXml(messageId)}</MsgId>`,
+			`      <CreDtTm>${creationTimestamp}</CreDtTm>`,
+			`      <NbOfTxs>${transfers.length}</NbOfTxs>`,
+			`      <CtrlSum>${controlSum}</CtrlSum>`,
+			`      <InitgPty>`,
+			`        <Nm>${escapeXml(truncate(options.debtorName, 70))}</Nm>`,
+			`      </InitgPty>`,
+			`    </GrpHdr>`,
+			`    <PmtInf>`,
+			`      <PmtInfId>${escapeXml(truncate(`${messageId}-1`, 35))}</PmtInfId>`,
+			`      <PmtMtd>TRF</PmtMtd>`,
+			`      <BtchBookg>${batchBooking ? "true" : "false"}</BtchBookg>`,
+			`      <NbOfTxs>${transfers.length}</NbOfTxs>`,
+			`      <CtrlSum>${controlSum}</CtrlSum>`,
+			`      <PmtTpInf>`,
+			`        <SvcLvl>`,
+			`          <Cd>SEPA</Cd>`,
+			`        </SvcLvl>`,
+			`        <CtgyPurp>`,
+			`          <Cd>SALA</Cd>`,
+			`        </CtgyPurp>`,
+			`      </PmtTpInf>`,
+			`      <ReqdExctnDt>`,
+			`        <Dt>${executionDate}</Dt>`,
+			`      </ReqdExctnDt>`,
+			`      <Dbtr>`,
+			`        <Nm>${escapeXml(truncate(options.debtorName, 70))}</Nm>`,
+			`      </Dbtr>`,
+			`      <DbtrAcct>`,
+			`        <Id>`,
+			`          <IBAN>${escapeXml(debtorIban)}</IBAN>`,
+			`        </Id>`,
+			`      </DbtrAcct>`,
+			`      <DbtrAgt>`,
+			`        <FinInstnId>${debtorAgent}</FinInstnId>`,
+			`      </DbtrAgt>`,
+			`      <ChrgBr>SLEV</ChrgBr>`,
+		];
+
+		for (const transfer of transfers) {
+			lines.push(
+				`      <CdtTrfTxInf>`,
+				`        <PmtId>`,
+				`          <EndToEndId>${escapeXml(transfer.endToEndId)}</EndToEndId>`,
+				`        </PmtId>`,
+				`        <Amt>`,
+				`          <InstdAmt Ccy="${transfer.amount.currency}">${transfer.amount.toDecimalString()}</InstdAmt>`,
+				`        </Amt>`,
+				`        <Cdtr>`,
+				`          <Nm>${escapeXml(truncate(transfer.beneficiaryName, 70))}</Nm>`,
+				`        </Cdtr>`,
+				`        <CdtrAcct>`,
+				`          <Id>`,
+				`            <IBAN>${escapeXml(transfer.iban)}</IBAN>`,
+				`          </Id>`,
+				`        </CdtrAcct>`,
+				`        <Purp>`,
+				`          <Cd>SALA</Cd>`,
+				`        </Purp>`,
+				`        <RmtInf>`,
+				`          <Ustrd>${escapeXml(truncate(transfer.reference, 140))}</Ustrd>`,
+				`        </RmtInf>`,
+				`      </CdtTrfTxInf>`,
+			);
+		}
+
+		lines.push(`    </PmtInf>`, `  </CstmrCdtTrfInitn>`, `</Document>`);
+
+		return lines.join("\n") + "\n";
+	}
+
+	/**
+	 * Validate pain.001 options without generating a file
+	 * Allows checking the debtor data before the payroll PDF is extracted.
+	 *
+	 * @param options - Debtor and execution options
+	 * @throws {ValidationError} If the options are invalid
+	 */
+	public validatePain001Options(options: SepaPain001Options): void {
+		if (!options) {
+			throw new ValidationError("SEPA options are required");
+		}
+		if (!options.debtorName || !options.debtorName.trim()) {
+			throw new ValidationError("Debtor name is required");
+		}
+
+		if (!validateIban(options.debtorIban || "").valid) {
+			throw new ValidationError(
+				`Invalid debtor IBAN: ${options.debtorIban || "(empty)"}`,
+			);
+		}
+
+		if (
+			options.debtorBic &&
+			!/^[A-Z]{6}[A-Z0-9]{2}(?:[A-Z0-9]{3})?$/i.test(options.debtorBic)
+		) {
+			throw new ValidationError(`Invalid debtor BIC: ${options.debtorBic}`);
+		}
+
+		if (
+			options.requestedExecutionDate &&
+			!isValidDate(options.requestedExecutionDate)
+		) {
+			throw new ValidationError(
+				`Invalid requested execution date: ${options.requestedExecutionDate}. Expected YYYY-MM-DD`,
+			);
+		}
+
+		if (options.messageId && options.messageId.length > 35) {
+			throw new ValidationError(
+				"Message ID must be at most 35 characters long",
+			);
+		}
+	}
+
+	/**
+	 * Collect transfer data from all salary statements of the personnel groups
+	 * Every regular statement (one per month of a group) is paid with its netto
+	 * amount, correction runs (Rückrechnungen) only with their difference to the
+	 * original payout.
+	 * Skips statements with an invalid IBAN unless explicitly allowed
+	 */
+	private collectTransfers(
+		groups: PersonnelGroup<BasePage>[],
+		options: SepaTransfersOptions,
+	): SepaTransfer[] {
+		const transfers: SepaTransfer[] = [];
+
+		for (const group of groups) {
+			for (const { totalsPage, correction } of group.statements) {
+				const { iban } = totalsPage;
+				if (iban && !options.allowInvalidIbans && !isValidIban(iban)) {
+					continue;
+				}
+
+				transfers.push(
+					this.createTransfer(
+						group,
+						totalsPage,
+						correction
+							? {
+									period: correction.correctedPeriod,
+									amount: correction.nettoDifference,
+									referencePrefix: "Korrektur Gehalt",
+									endToEndPrefix: "LOHNKORR",
+								}
+							: {
+									period: totalsPage.period ?? group.period,
+									amount: totalsPage.netto,
+									referencePrefix: "Gehalt",
+									endToEndPrefix: "LOHN",
+								},
+					),
+				);
+			}
+		}
+
+		return transfers;
+	}
+
+	/**
+	 * Create the transfer for a salary statement page
+	 */
+	private createTransfer(
+		group: PersonnelGroup<BasePage>,
+		page: LOGN17Page,
+		payment: {
+			period: PayrollPeriod | null;
+			amount: Money | null;
+			referencePrefix: string;
+			endToEndPrefix: string;
+		},
+	): SepaTransfer {
+		const { period } = payment;
+
+		const reference = period
+			? `${payment.referencePrefix} ${period.formatGerman()} (${group.personnelNumber})`
+			: `${payment.referencePrefix} (${group.personnelNumber})`;
+
+		// End-to-end ID must be ASCII and at most 35 characters ("202503" or "2025")
+		const endToEndId = truncate(
+			[
+				payment.endToEndPrefix,
+				period?.toISOString().replace("-", ""),
+				group.personnelNumber,
+			]
+				.filter(Boolean)
+				.join("-")
+				.replace(/[^A-Za-z0-9-]/g, ""),
+			35,
+		);
+
+		return {
+			beneficiaryName: group.employeeName || "",
+			iban: page.iban || "",
+			amount: payment.amount,
+			reference,
+			endToEndId,
+		};
+	}
 }
@@ -0,0 +1,315 @@
+/**
+ * Payroll period value type
+ * DATEV statements name periods in German ("Oktober 2025", "Abrechnungsmonat
+ * 03/2025"); annual documents name the year only ("Kalenderjahr 2025")
+ */
+
+import { ValidationError } from "./errors.js";
+
+/**
+ * German month names (index 0 = January)
+ */
+const GERMAN_MONTHS = [
+	"Januar",
+	"Februar",
+	"März",
+	"April",
+	"Mai",
+	"Juni",
+	"Juli",
+	"August",
+	"September",
+	"Oktober",
+	"November",
+	"Dezember",
+] as const;
+
+/**
+ * English month names (index 0 = January)
+ */
+const ENGLISH_MONTHS = [
+	"January",
+	"February",
+	"March",
+	"April",
+	"May",
+	"June",
+	"July",
+	"August",
+	"September",
+	"October",
+	"November",
+	"December",
+] as const;
+
+/**
+ * German month name followed by a year ("März 2025", "Maerz 2025")
+ */
+const MONTH_NAME_PERIOD = String.raw`(?:${GERMAN_MONTHS.join("|")}|Maerz)\s*\d{4}`;
+
+/**
+ * Numeric month and year ("03/2025", "3.2025"), not part of a full date
+ */
+const NUMERIC_PERIOD = String.raw`(?<![\d./])(?:0?[1-9]|1[0-2])\s*[/.]\s*\d{4}`;
+
+/**
+ * Monthly period in any notation (see {@link PAYROLL_PERIOD_PATTERN})
+ */
+const MONTHLY_PERIOD = String.raw`(?:${MONTH_NAME_PERIOD}|${NUMERIC_PERIOD})(?!\d)`;
+
+/**
+ * Patterns locating a period in a page text, by priority
+ * The period is in capture group 1.
+ */
+const FIND_PATTERNS = [
+	// Labelled monthly period: "Abrechnungsmonat März 2025", "Abrechnungszeitraum: 03/2025"
+	new RegExp(
+		String.raw`(?:Abrechnungsmonat|Abrechnungszeitraum|Lohnzahlungszeitraum)\s*:?\s*(${MONTHLY_PERIOD})`,
+		"i",
+	),
+	new RegExp(String.raw`(${MONTH_NAME_PERIOD})(?!\d)`, "i"),
+	new RegExp(String.raw`(${NUMERIC_PERIOD})(?!\d)`, "i"),
+	// Annual period: "Kalenderjahr 2025", "Abrechnungsjahr: 2025"
+	/(?<![a-zäöüß])(?:Abrechnungsjahr|Kalenderjahr|Jahr)\s*:?\s*(\d{4})(?!\d)/i,
+];
+
+/**
+ * Label prefixes accepted by {@link PayrollPeriod.parse}
+ */
+const LABEL_PREFIX =
+	/^(?:Abrechnungsmonat|Abrechnungszeitraum|Lohnzahlungszeitraum|Monat|Abrechnungsjahr|Kalenderjahr|Jahr)\s*:?\s*/i;
+
+/**
+ * Get the number of a German month name (case-insensitive, "Maerz" for "März")
+ */
+function germanMonthNumber(month: string): number | null {
+	const name = month.toLowerCase().replace("maerz", "märz");
+	const index = GERMAN_MONTHS.findIndex((m) => m.toLowerCase() === name);
+	return index >= 0 ? index + 1 : null;
+}
+
+/**
+ * Monthly period in any supported notation, for use in other patterns
+ * (no capture groups)
+ */
+export const PAYROLL_PERIOD_PATTERN = new RegExp(MONTHLY_PERIOD, "i");
+
+/**
+ * Period found in a text
+ */
+export interface PayrollPeriodMatch {
+	/** Parsed period */
+	period: PayrollPeriod;
+	/** Offset of the period text */
+	offset: number;
+	/** Period text as found, e.g. "März 2025" */
+	text: string;
+	/** Matched text including a label, e.g. "Abrechnungsmonat März 2025" */
+	snippet: string;
+}
+
+/**
+ * Immutable payroll period: a month of a year, or a whole year (annual period)
+ *
+ * @example
+ * ```typescript
+ * const period = PayrollPeriod.parse("Abrechnungsmonat März 2025");
+ * period.toISOString(); // "2025-03"
+ * period.formatGerman(); // "März 2025"
+ * period.formatEnglish(); // "March 2025"
+ * PayrollPeriod.parse("03/2025").equals(period); // true
+ * PayrollPeriod.parse("Kalenderjahr 2025").isAnnual(); // true
+ * ```
+ */
+export class PayrollPeriod {
+	/**
+	 * Create a period from its year and month
+	 *
+	 * @param year - Four-digit year
+	 * @param month - Month number 1-12, or null for an annual period
+	 * @throws {ValidationError} If the year or month is out of range
+	 */
+	public static of(year: number, month: number | null = null): PayrollPeriod {
+		if (!Number.isInteger(year) || year < 1000 || year > 9999) {
+			throw new ValidationError(`Invalid payroll year: ${year}`);
+		}
+		if (
+			month !== null &&
+			(!Number.isInteger(month) || month < 1 || month > 12)
+		) {
+			throw new ValidationError(`Invalid payroll month: ${month}`);
+		}
+		return new PayrollPeriod(year, month);
+	}
+
+	/**
+	 * Parse a period
+	 * Supports ISO ("2025-03", "2025"), numeric ("03/2025", "3.2025") and German
+	 * notation ("März 2025"), optionally with a label ("Abrechnungsmonat März 2025",
+	 * "Kalenderjahr 2025")
+	 *
+	 * @param value - Period text
+	 * @throws {ValidationError} If the value is not a valid period
+	 */
+	public static parse(value: string): PayrollPeriod {
+		const period = PayrollPeriod.tryParse(value);
+		if (!period) {
+			throw new ValidationError(`Invalid payroll period: "${value}"`);
+		}
+		return period;
+	}
+
+	/**
+	 * Parse a period, returning null if it is invalid (see {@link parse})
+	 *
+	 * @param value - Period text
+	 */
+	public static tryParse(value: string): PayrollPeriod | null {
+		const text = value.trim().replace(LABEL_PREFIX, "");
+
+		const iso = /^(\d{4})(?:-(\d{2}))?$/.exec(text);
+		if (iso) {
+			return PayrollPeriod.create(iso[1]!, iso[2]);
+		}
+
+		const numeric = /^(\d{1,2})\s*[/.]\s*(\d{4})$/.exec(text);
+		if (numeric) {
+			return PayrollPeriod.create(numeric[2]!, numeric[1]);
+		}
+
+		const named = /^([a-zä]+)\s*(\d{4})$/i.exec(text);
+		const month = named ? germanMonthNumber(named[1]!) : null;
+		return named && month
+			? PayrollPeriod.create(named[2]!, String(month))
+			: null;
+	}
+
+	/**
+	 * Find the period of a page text
+	 * Labelled periods take precedence over German month names, numeric
+	 * periods and annual periods.
+	 *
+	 * @param text - Text to search
+	 * @returns First period of the highest-priority notation, or null
+	 */
+	public static find(text: string): PayrollPeriodMatch | null {
+		for (const pattern of FIND_PATTERNS) {
+			const match = new RegExp(pattern.source, pattern.flags + "d").exec(text);
+			const period = match?.[1] ? PayrollPeriod.tryParse(match[1]) : null;
+			if (match?.[1] && match.indices?.[1] && period) {
+				return {
+					period,
+					offset: match.indices[1][0],
+					text: match[1],
+					snippet: match[0].trim(),
+				};
+			}
+		}
+		return null;
+	}
+
+	/**
+	 * Restore a period from its JSON representation (see {@link toJSON})
+	 *
+	 * @param json - ISO period ("2025-03" or "2025")
+	 * @throws {ValidationError} If the value is not a valid period
+	 */
+	public static fromJSON(json: string): PayrollPeriod {
+		return PayrollPeriod.parse(json);
+	}
+
+	/**
+	 * Create a period from parsed digits, returning null if out of range
+	 */
+	private static create(
+		year: string,
+		month: string | undefined,
+	): PayrollPeriod | null {
+		const monthNumber = month === undefined ? null : parseInt(month, 10);
+		if (monthNumber !== null && (monthNumber < 1 || monthNumber > 12)) {
+			return null;
+		}
+		return new PayrollPeriod(parseInt(year, 10), monthNumber);
+	}
+
+	private constructor(
+		/**
+		 * Four-digit year
+		 */
+		public readonly year: number,
+		/**
+		 * Month number 1-12, or null for an annual period
+		 */
+		public readonly month: number | null,
+	) {}
+
+	/**
+	 * Whether the period is a whole year
+	 */
+	public isAnnual(): boolean {
+		return this.month === null;
+	}
+
+	/**
+	 * Compare with another period (chronologically)
+	 * An annual period sorts before the months of its year.
+	 *
+	 * @returns -1 if earlier, 0 if equal, 1 if later
+	 */
+	public compare(other: PayrollPeriod): -1 | 0 | 1 {
+		const a = this.year * 100 + (this.month ?? 0);
+		const b = other.year * 100 + (other.month ?? 0);
+		return a < b ? -1 : a > b ? 1 : 0;
+	}
+
+	/**
+	 * Check equality (same year and month)
+	 */
+	public equals(other: PayrollPeriod): boolean {
+		return this.year === other.year && this.month === other.month;
+	}
+
+	/**
+	 * German month name ("März"), or null for an annual period
+	 */
+	public germanMonthName(): string | null {
+		return this.month === null ? null : GERMAN_MONTHS[this.month - 1]!;
+	}
+
+	/**
+	 * German label ("März 2025", "2025")
+	 */
+	public formatGerman(): string {
+		const month = this.germanMonthName();
+		return month ? `${month} ${this.year}` : String(this.year);
+	}
+
+	/**
+	 * English label ("March 2025", "2025")
+	 */
+	public formatEnglish(): string {
+		return this.month === null
+			? String(this.year)
+			: `${ENGLISH_MONTHS[this.month - 1]!} ${this.year}`;
+	}
+
+	/**
+	 * ISO 8601 notation ("2025-03", "2025")
+	 */
+	public toISOString(): string {
+		return this.month === null
+			? String(this.year)
+			: `${this.year}-${String(this.month).padStart(2, "0")}`;
+	}
+
+	public toString(): string {
+		return this.toISOString();
+	}
+
+	/**
+	 * JSON representation: ISO notation
+	 */
+	public toJSON(): string {
+		return this.toISOString();
+	}
+}
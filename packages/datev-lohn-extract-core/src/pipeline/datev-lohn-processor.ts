@@ -0,0 +1,493 @@
+import { pino } from "pino";
+
+import {
+	COMPANY_NAMING_PLACEHOLDERS,
+	NamingTemplate,
+	PERSONNEL_NAMING_PLACEHOLDERS,
+} from "./naming-template.js";
+import { PageExtractor } from "../core/page-extractor.js";
+import { PageGrouper } from "../grouping/page-grouper.js";
+import { DatevBookingBatchGenerator } from "../output/datev-booking-batch-generator.js";
+import { PayrollSummaryGenerator } from "../output/payroll-summary-generator.js";
+import { PdfGenerator } from "../output/pdf-generator.js";
+import { SepaTransfersGenerator } from "../output/sepa-transfers-generator.js";
+
+import type {
+	ExtractPagesOptions,
+	PageExtractorArgs,
+	PageExtractorOptions,
+} from "../core/page-extractor.js";
+import type {
+	PageGrouperResult,
+	PersonnelGroupingMode,
+} from "../grouping/page-grouper.js";
+import type { DatevBookingBatchOptions } from "../output/datev-booking-batch-generator.js";
+import type { PayrollSummaryCsvOptions } from "../output/payroll-summary-generator.js";
+import type { PdfGeneratorOptions } from "../output/pdf-generator.js";
+import type {
+	SepaPain001Options,
+	SepaTransfersOptions,
+} from "../output/sepa-transfers-generator.js";
+import type {
+	BasePage,
+	ExtractedPage,
+	GeneratedCompanyPdf,
+	GeneratedPersonnelPdf,
+	LOGN17EmployeeData,
+	PayrollSummaryFormat,
+	ProcessingArtifact,
+	ProcessingMetadata,
+} from "../types.js";
+import type { NamingValues } from "./naming-template.js";
+import type { Logger } from "pino";
+
+/**
+ * Make a path unique among the used paths (case-insensitive) by adding
+ * "-2", "-3", ... before the extension, and mark it as used
+ */
+function uniquePath(path: string, usedPaths: Set<string>): string {
+	const slash = path.lastIndexOf("/");
+	const dot = path.lastIndexOf(".");
+	const extensionStart = dot > slash + 1 ? dot : path.length;
+
+	let candidate = path;
+	for (let n = 2; usedPaths.has(candidate.toLowerCase()); n++) {
+		candidate = `${path.slice(0, extensionStart)}-${n}${path.slice(extensionStart)}`;
+	}
+	usedPaths.add(candidate.toLowerCase());
+	return candidate;
+}
+
+/**
+ * Options of a DatevLohnProcessor (shared by all runs)
+ * Pages are redacted per run, see {@link ProcessOptions.redactor}.
+ */
+export type DatevLohnProcessorOptions<TPage extends BasePage = ExtractedPage> =
+	Omit<PageExtractorOptions<TPage>, "redactor">;
+
+/**
+ * SEPA output of a processing run
+ */
+export type SepaOutputOptions =
+	| ({ format: "csv" } & SepaTransfersOptions)
+	| ({ format: "pain001" } & SepaPain001Options);
+
+/**
+ * Payroll summary output of a processing run
+ */
+export interface PayrollSummaryOutputOptions extends PayrollSummaryCsvOptions {
+	/**
+	 * Formats to generate. Defaults to all formats; an empty list disables the summary.
+	 */
+	formats?: PayrollSummaryFormat[];
+}
+
+/**
+ * Naming templates of the generated PDFs (see {@link NamingTemplate})
+ */
+export interface OutputNamingOptions {
+	/**
+	 * Template of personnel PDF paths.
+	 * Defaults to {@link NamingTemplate.DEFAULT_PERSONNEL}.
+	 */
+	personnel?: string;
+
+	/**
+	 * Template of company PDF paths.
+	 * Defaults to {@link NamingTemplate.DEFAULT_COMPANY}.
+	 */
+	company?: string;
+}
+
+/**
+ * Options of a single processing run
+ * Extraction options (signal, progress, page range, password) and PDF options
+ * (encryption, redaction, document information, PDF/A) apply to this run only.
+ */
+export interface ProcessOptions
+	extends ExtractPagesOptions,
+		PdfGeneratorOptions {
+	/**
+	 * Grouping of personnel pages. Defaults to "personnel".
+	 */
+	groupBy?: PersonnelGroupingMode;
+
+	/**
+	 * Format and options of the SEPA transfers file. Defaults to CSV.
+	 */
+	sepa?: SepaOutputOptions;
+
+	/**
+	 * Formats and options of the payroll summary. Defaults to JSON, CSV and XLSX.
+	 */
+	summary?: PayrollSummaryOutputOptions;
+
+	/**
+	 * Header and account options of the DATEV Buchungsstapel.
+	 * The Buchungsstapel is only generated if given.
+	 */
+	datev?: DatevBookingBatchOptions;
+
+	/**
+	 * Add the field provenance of every page to the metadata
+	 */
+	includeProvenance?: boolean;
+
+	/**
+	 * Naming templates of the generated PDFs
+	 */
+	naming?: OutputNamingOptions;
+}
+
+/**
+ * Result of a processing run
+ *
+ * @template TPage - Page types produced by the form registry
+ */
+export interface ProcessingResult<TPage extends BasePage = ExtractedPage> {
+	/** Extracted pages (redacted if a redactor is given) */
+	pages: TPage[];
+	/** Personnel and company groups */
+	groups: PageGrouperResult<TPage>;
+	/**
+	 * Generated files in output order: personnel PDFs, company PDFs, SEPA file,
+	 * payroll summaries, DATEV Buchungsstapel, metadata.
+	 * Paths are unique (case-insensitive) and may contain subdirectories.
+	 */
+	artifacts: ProcessingArtifact[];
+	/** Summary of the run (also contained in the metadata artifact) */
+	metadata: ProcessingMetadata;
+}
+
+/**
+ * DATEV Lohn processor - runs the whole pipeline for a PDF
+ * Extracts, groups, generates personnel and company PDFs, the SEPA transfers
+ * file, the payroll summaries, the DATEV Buchungsstapel (optional) and
+ * metadata.json, and returns them as artifacts with suggested paths.
+ * Front-ends (CLI, API) only read the input and write the artifacts.
+ *
+ * @example
+ * ```typescript
+ * const processor = new DatevLohnProcessor();
+ * const { artifacts } = await processor.process(pdfBuffer, { groupBy: "period" });
+ * for (const artifact of artifacts) {
+ *   const filePath = path.join(outputDir, artifact.path);
+ *   await fs.mkdir(path.dirname(filePath), { recursive: true });
+ *   await fs.writeFile(filePath, artifact.data);
+ * }
+ * ```
+ *
+ * @template TPage - Page types produced by the form registry
+ */
+export class DatevLohnProcessor<TPage extends BasePage = ExtractedPage> {
+	/**
+	 * Placeholder values of a personnel PDF (the period is passed separately)
+	 */
+	private static personnelNamingValues(
+		pdf: Omit<GeneratedPersonnelPdf, "data">,
+		employee: LOGN17EmployeeData | null,
+	): NamingValues {
+		return {
+			...DatevLohnProcessor.companyNamingValues(pdf),
+			personnelNumber: pdf.personnelNumber,
+			employeeName: pdf.employeeName,
+			correction: pdf.isCorrection ? "KORREKTUR" : null,
+			...Object.fromEntries(
+				Object.entries(employee ?? {}).map(([field, value]) => [
+					`employee.${field}`,
+					value,
+				]),
+			),
+		};
+	}
+
+	/**
+	 * Placeholder values of a company PDF (the period is passed separately)
+	 */
+	private static companyNamingValues(
+		pdf: Omit<GeneratedCompanyPdf, "data">,
+	): NamingValues {
+		return { pageCount: String(pdf.pageCount) };
+	}
+
+	private readonly logger: Logger;
+	private readonly pageExtractor: PageExtractor<TPage>;
+	private readonly pageGrouper = new PageGrouper();
+	private readonly sepaTransfersGenerator = new SepaTransfersGenerator();
+	private readonly payrollSummaryGenerator = new PayrollSummaryGenerator();
+	private readonly datevBookingBatchGenerator =
+		new DatevBookingBatchGenerator();
+	private readonly defaultPdfGenerator = new PdfGenerator();
+
+	/**
+	 * @param args - Extractor options; a form registry is required for custom page types (see PageExtractorArgs)
+	 * @throws {ValidationError} If the extractor options are invalid (see PageExtractor)
+	 */
+	public constructor(
+		...args: PageExtractorArgs<TPage, DatevLohnProcessorOptions<TPage>>
+	) {
+		this.logger =
+			args[0]?.logger?.child({ name: "DatevLohnProcessor" }) ??
+			pino({ level: "silent" });
+		this.pageExtractor = new PageExtractor<TPage>(...args);
+	}
+
+	/**
+	 * Process a DATEV PDF
+	 * PDFs are generated in parallel; the first failure rejects the run.
+	 *
+	 * @param pdfBuffer - PDF file as Buffer
+	 * @param options - Options of this run
+	 * @returns Extracted pages, groups, artifacts and metadata
+	 * @throws {ValidationError} If the PDF or options (e.g. naming templates, SEPA debtor data, DATEV header fields) are invalid, or no user password is configured for an employee
+	 * @throws {PasswordRequiredError} If the PDF is encrypted and no password was given
+	 * @throws {IncorrectPasswordError} If the password is incorrect
+	 * @throws {ExtractionError} If PDF loading or extraction fails
+	 * @throws {ExtractionAbortedError} If the extraction was aborted
+	 * @throws {PdfGenerationError} If PDF generation fails
+	 */
+	public async process(
+		pdfBuffer: Buffer,
+		options: ProcessOptions = {},
+	): Promise<ProcessingResult<TPage>> {
+		const { redactor, password } = options;
+		const pdfGenerator = this.createPdfGenerator(options);
+		// Parsed and validated before extraction, so invalid templates, debtor data
+		// and DATEV options fail fast
+		const personnelTemplate = new NamingTemplate(
+			options.naming?.personnel ?? NamingTemplate.DEFAULT_PERSONNEL,
+			PERSONNEL_NAMING_PLACEHOLDERS,
+		);
+		const companyTemplate = new NamingTemplate(
+			options.naming?.company ?? NamingTemplate.DEFAULT_COMPANY,
+			COMPANY_NAMING_PLACEHOLDERS,
+		);
+		const sepa = options.sepa ?? { format: "csv" };
+		if (sepa.format === "pain001") {
+			this.sepaTransfersGenerator.validatePain001Options(sepa);
+		}
+		if (options.datev) {
+			this.datevBookingBatchGenerator.validateBookingBatchOptions(
+				options.datev,
+			);
+		}
+
+		// Redacted after extraction, so the extractor can be shared between runs
+		const pages = (
+			await this.pageExtractor.extractPages(pdfBuffer, options)
+		).map((page) => (redactor ? redactor.redactPage(page) : page));
+		const groups = this.pageGrouper.group(pages, options.groupBy);
+
+		// Generated one after another: every PDF loads its own copy of the source
+		// document, so parallel generation would hold one copy per group in memory
+		const personnelPdfs: GeneratedPersonnelPdf[] = [];
+		for (const group of groups.personnelGroups) {
+			personnelPdfs.push(
+				await pdfGenerator.generatePersonnelPdf(group, pdfBuffer, { password }),
+			);
+		}
+		const companyPdfs: GeneratedCompanyPdf[] = [];
+		for (const group of groups.companyGroups) {
+			companyPdfs.push(
+				await pdfGenerator.generateCompanyPdf(group, pdfBuffer, { password }),
+			);
+		}
+
+		const metadata: ProcessingMetadata = {
+			period: (personnelPdfs[0] ?? companyPdfs[0])?.period ?? null,
+			fileCount: {
+				personnel: personnelPdfs.length,
+				company: companyPdfs.length,
+			},
+			warnings: pages.flatMap((page) =>
+				page.warnings.map((warning) => ({
+					pageIndex: page.pageIndex,
+					personnelNumber: page.personnelNumber,
+					...warning,
+				})),
+			),
+			...(options.includeProvenance && {
+				provenance: pages.map((page) => ({
+					pageIndex: page.pageIndex,
+					formType: page.formType,
+					personnelNumber: page.personnelNumber,
+					fields: page.provenance,
+				})),
+			}),
+		};
+
+		// Fixed names are reserved first, so PDFs never replace them
+		const sepaArtifact = this.createSepaArtifact(groups, sepa);
+		const summaryArtifacts = this.createSummaryArtifacts(groups, options);
+		const datevArtifacts = options.datev
+			? [this.createDatevArtifact(groups, options.datev)]
+			: [];
+		if (options.datev) {
+			metadata.warnings.push(
+				...this.datevBookingBatchGenerator
+					.findStatementsWithoutPeriod(groups.personnelGroups)
+					.map(({ totalsPage }) => ({
+						pageIndex: totalsPage.pageIndex,
+						personnelNumber: totalsPage.personnelNumber,
+						code: "MISSING_PERIOD" as const,
+						message: `Payroll period of personnel number ${totalsPage.personnelNumber} is unknown, the statement is not booked in the DATEV Buchungsstapel`,
+						field: "period",
+					})),
+			);
+		}
+		const usedPaths = new Set(
+			[
+				sepaArtifact.path,
+				...summaryArtifacts.map((artifact) => artifact.path),
+				...datevArtifacts.map((artifact) => artifact.path),
+				"metadata.json",
+			].map((p) => p.toLowerCase()),
+		);
+
+		const artifacts: ProcessingArtifact[] = [
+			...personnelPdfs.map(({ data, ...pdf }, index) => ({
+				kind: "personnel-pdf" as const,
+				path: uniquePath(
+					personnelTemplate.render(
+						DatevLohnProcessor.personnelNamingValues(
+							pdf,
+							groups.personnelGroups[index]!.employee,
+						),
+						pdf.period,
+					),
+					usedPaths,
+				),
+				data,
+				metadata: pdf,
+			})),
+			...companyPdfs.map(({ data, ...pdf }) => ({
+				kind: "company-pdf" as const,
+				path: uniquePath(
+					companyTemplate.render(
+						DatevLohnProcessor.companyNamingValues(pdf),
+						pdf.period,
+					),
+					usedPaths,
+				),
+				data,
+				metadata: pdf,
+			})),
+			sepaArtifact,
+			...summaryArtifacts,
+			...datevArtifacts,
+			{
+				kind: "metadata",
+				path: "metadata.json",
+				data: JSON.stringify(metadata, null, 2),
+				metadata,
+			},
+		];
+
+		this.logger.info(
+			`Generated %d personnel and %d company PDF(s)`,
+			personnelPdfs.length,
+			companyPdfs.length,
+		);
+
+		return { pages, groups, artifacts, metadata };
+	}
+
+	/**
+	 * Create the PDF generator of a run
+	 * The shared generator is used if no PDF options are given.
+	 *
+	 * @throws {ValidationError} If the encryption options are invalid or combined with PDF/A
+	 */
+	private createPdfGenerator(options: ProcessOptions): PdfGenerator {
+		const { encryption, redactor, documentInfo, pdfA } = options;
+		if (!encryption && !redactor && !documentInfo && !pdfA) {
+			return this.defaultPdfGenerator;
+		}
+		return new PdfGenerator({ encryption, redactor, documentInfo, pdfA });
+	}
+
+	/**
+	 * Generate the SEPA transfers file (CSV or pain.001 XML)
+	 *
+	 * @throws {ValidationError} If the pain.001 options are invalid
+	 */
+	private createSepaArtifact(
+		groups: PageGrouperResult<TPage>,
+		sepa: SepaOutputOptions,
+	): ProcessingArtifact {
+		if (sepa.format === "pain001") {
+			return {
+				kind: "sepa-transfers",
+				path: "sepa-transfers.xml",
+				data: this.sepaTransfersGenerator.generatePain001Xml(
+					groups.personnelGroups,
+					sepa,
+				),
+				metadata: { format: "pain001" },
+			};
+		}
+		return {
+			kind: "sepa-transfers",
+			path: "sepa-transfers.csv",
+			data: this.sepaTransfersGenerator.generateSepaTransfersCsv(
+				groups.personnelGroups,
+				sepa,
+			),
+			metadata: { format: "csv" },
+		};
+	}
+
+	/**
+	 * Generate the payroll summary in the requested formats
+	 * The rows are redacted with the redactor of the run, if any.
+	 */
+	private createSummaryArtifacts(
+		groups: PageGrouperResult<TPage>,
+		options: ProcessOptions,
+	): ProcessingArtifact[] {
+		const { summary = {}, redactor } = options;
+		const formats = new Set<PayrollSummaryFormat>(
+			summary.formats ?? ["json", "csv", "xlsx"],
+		);
+		const { personnelGroups } = groups;
+		const generator = redactor
+			? new PayrollSummaryGenerator({ redactor })
+			: this.payrollSummaryGenerator;
+
+		return [...formats].map((format) => ({
+			kind: "payroll-summary" as const,
+			path: `payroll-summary.${format}`,
+			data:
+				format === "json"
+					? generator.generateJson(personnelGroups)
+					: format === "csv"
+						? generator.generateCsv(personnelGroups, summary)
+						: generator.generateXlsx(personnelGroups),
+			metadata: { format },
+		}));
+	}
+
+	/**
+	 * Generate the DATEV Buchungsstapel
+	 *
+	 * @throws {ValidationError} If the header fields or accounts are invalid, or a statement lies outside of the fiscal year
+	 */
+	private createDatevArtifact(
+		groups: PageGrouperResult<TPage>,
+		datev: DatevBookingBatchOptions,
+	): ProcessingArtifact {
+		const bookings = this.datevBookingBatchGenerator.createBookings(
+			groups.personnelGroups,
+			datev,
+		);
+		return {
+			kind: "datev-booking-batch",
+			path: "EXTF_Buchungsstapel.csv",
+			data: this.datevBookingBatchGenerator.formatBookingBatchCsv(
+				bookings,
+				datev,
+			),
+			metadata: { bookingCount: bookings.length },
+		};
+	}
+}
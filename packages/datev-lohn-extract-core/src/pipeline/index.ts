@@ -0,0 +1,2 @@
+export * from "./datev-lohn-processor.js";
+export * from "./naming-template.js";
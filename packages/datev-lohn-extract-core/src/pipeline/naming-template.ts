@@ -0,0 +1,433 @@
+import { ValidationError } from "../errors.js";
+
+import type { PayrollPeriod } from "../period.js";
+import type { LOGN17EmployeeData } from "../types.js";
+
+/**
+ * Values available while rendering a template
+ */
+interface RenderContext {
+	values: NamingValues;
+	period: PayrollPeriod | null;
+}
+
+/**
+ * Placeholder of a parsed naming template
+ */
+interface TemplatePlaceholder {
+	type: "placeholder";
+	name: string;
+	format: string | null;
+	filters: string[];
+}
+
+/**
+ * Part of a parsed naming template
+ */
+type TemplatePart =
+	| { type: "literal"; text: string }
+	| TemplatePlaceholder
+	| { type: "optional"; parts: TemplatePart[] };
+
+/**
+ * Employee master data fields, available as `{employee.<field>}` in personnel PDF names
+ */
+const EMPLOYEE_FIELDS = [
+	"taxClass",
+	"childAllowances",
+	"denomination",
+	"taxId",
+	"socialSecurityNumber",
+	"healthInsurance",
+	"personGroup",
+	"contributionGroup",
+	"birthDate",
+	"entryDate",
+	"exitDate",
+] as const satisfies ReadonlyArray<keyof LOGN17EmployeeData>;
+
+/**
+ * Placeholders derived from the payroll period
+ */
+const PERIOD_PLACEHOLDERS = new Set(["year", "month", "period"]);
+
+/**
+ * Placeholders accepting a date format (yyyy, yy, MMMM, MM, M)
+ */
+const FORMAT_PLACEHOLDERS = new Set(["period", "month"]);
+
+/**
+ * Filters applied to placeholder values
+ */
+const FILTERS: Record<string, (value: string) => string> = {
+	slug: slugify,
+	upper: (value) => value.toUpperCase(),
+	lower: (value) => value.toLowerCase(),
+};
+
+/**
+ * Transliteration of German characters for slugs
+ */
+const TRANSLITERATIONS: Record<string, string> = {
+	ä: "ae",
+	ö: "oe",
+	ü: "ue",
+	ß: "ss",
+};
+
+/**
+ * Format a period placeholder
+ * Defaults: `{year}` = "2025", `{month}` = German name, `{period}` = ISO ("2025-03" or "2025")
+ *
+ * @returns Formatted period, or null without period (or month, if the format needs one)
+ */
+function formatPeriod(
+	period: PayrollPeriod | null,
+	placeholder: TemplatePlaceholder,
+): string | null {
+	if (!period) {
+		return null;
+	}
+	if (placeholder.name === "year") {
+		return String(period.year);
+	}
+	if (!placeholder.format) {
+		return placeholder.name === "period"
+			? period.toISOString()
+			: period.germanMonthName();
+	}
+
+	const { year, month } = period;
+	let missing = false;
+	const formatted = placeholder.format.replace(
+		/yyyy|yy|MMMM|MM|M/g,
+		(token) => {
+			if (token.startsWith("y")) {
+				return token === "yy" ? String(year).slice(-2) : String(year);
+			}
+			missing ||= month === null;
+			if (token === "MMMM") {
+				return period.germanMonthName() ?? "";
+			}
+			const digits = String(month ?? "");
+			return token === "MM" ? digits.padStart(2, "0") : digits;
+		},
+	);
+	return missing ? null : formatted;
+}
+
+/**
+ * Convert a value to a lowercase ASCII slug ("Jörg Müller" -> "joerg-mueller")
+ */
+function slugify(value: string): string {
+	return value
+		.toLowerCase()
+		.replace(/[äöüß]/g, (char) => TRANSLITERATIONS[char]!)
+		.normalize("NFKD")
+		.replace(/[\u0300-\u036f]/g, "")
+		.replace(/[^a-z0-9]+/g, "-")
+		.replace(/^-+|-+$/g, "");
+}
+
+/**
+ * Values of the placeholders of a naming template (null = no value)
+ */
+export type NamingValues = Record<string, string | null>;
+
+/**
+ * Placeholders of company PDF names
+ */
+export const COMPANY_NAMING_PLACEHOLDERS: readonly string[] = [
+	"year",
+	"month",
+	"period",
+	"pageCount",
+];
+
+/**
+ * Placeholders of personnel PDF names
+ */
+export const PERSONNEL_NAMING_PLACEHOLDERS: readonly string[] = [
+	...COMPANY_NAMING_PLACEHOLDERS,
+	"personnelNumber",
+	"employeeName",
+	"correction",
+	...EMPLOYEE_FIELDS.map((field) => `employee.${field}`),
+];
+
+/**
+ * Naming template - builds relative output paths from group values
+ *
+ * Syntax:
+ * - `{name}` - placeholder, e.g. `{personnelNumber}`
+ * - `{name:format}` - date format for `period` and `month`
+ *   (`yyyy`, `yy`, `MMMM` = German month name, `MM`, `M`), e.g. `{period:yyyy-MM}`
+ * - `{name|filter}` - filters `slug`, `upper`, `lower`, e.g. `{employeeName|slug}`
+ * - `[...]` - optional section, omitted if a placeholder in it has no value
+ * - `/` - subdirectory separator
+ *
+ * Placeholder values cannot create directories. Every path segment is
+ * sanitized (no path traversal, control or reserved characters).
+ *
+ * @example
+ * ```typescript
+ * const template = new NamingTemplate(
+ *   "{period:yyyy-MM}/{personnelNumber}_{employeeName|slug}.pdf",
+ *   PERSONNEL_NAMING_PLACEHOLDERS,
+ * );
+ * template.render(
+ *   { personnelNumber: "12345", employeeName: "Jörg Müller" },
+ *   PayrollPeriod.of(2025, 3),
+ * );
+ * // "2025-03/12345_joerg-mueller.pdf"
+ * ```
+ */
+export class NamingTemplate {
+	/**
+	 * Default name of personnel PDFs, e.g. "PERSONNEL-2025-10-12345.pdf"
+	 * Numeric periods sort chronologically, unlike German month names.
+	 */
+	public static readonly DEFAULT_PERSONNEL =
+		"PERSONNEL[-{period}]-{personnelNumber}[-{correction}].pdf";
+
+	/**
+	 * Default name of company PDFs, e.g. "COMPANY-2025-10.pdf"
+	 */
+	public static readonly DEFAULT_COMPANY = "COMPANY[-{period}].pdf";
+
+	/**
+	 * Make a path segment safe for file systems and ZIP archives
+	 */
+	private static sanitizeSegment(segment: string): string {
+		return (
+			segment
+				// Remove control characters (including null bytes)
+				.replace(/[\u0000-\u001f\u007f]/g, "")
+				// Replace characters reserved on common file systems
+				.replace(/[<>:"\\|?*]/g, "_")
+				// Remove path traversal attempts
+				.replace(/\.\./g, "")
+				// Remove leading/trailing whitespace and dots
+				.trim()
+				.replace(/^\.+/, "")
+				.replace(/\.+$/, "")
+				// Limit length
+				.substring(0, 255)
+		);
+	}
+
+	/**
+	 * Parse a placeholder (text between the braces)
+	 *
+	 * @throws {ValidationError} If the placeholder is malformed
+	 */
+	private static parsePlaceholder(
+		spec: string,
+		template: string,
+	): TemplatePlaceholder {
+		const match = /^([\w.]+)(?::([^|]+))?((?:\|\w+)*)$/.exec(spec.trim());
+		if (!match) {
+			throw new ValidationError(
+				`Invalid placeholder {${spec}} in naming template ${template}`,
+			);
+		}
+		return {
+			type: "placeholder",
+			name: match[1]!,
+			format: match[2] ?? null,
+			filters: match[3] ? match[3].slice(1).split("|") : [],
+		};
+	}
+
+	private readonly parts: TemplatePart[];
+
+	/**
+	 * @param template - Template text
+	 * @param placeholders - Allowed placeholder names (e.g. PERSONNEL_NAMING_PLACEHOLDERS)
+	 * @throws {ValidationError} If the template is malformed or uses unknown placeholders, formats or filters
+	 */
+	public constructor(
+		private readonly template: string,
+		private readonly placeholders: readonly string[],
+	) {
+		if (!template.trim()) {
+			throw new ValidationError("Naming template must not be empty");
+		}
+		this.parts = this.parse();
+		this.validate(this.parts);
+	}
+
+	/**
+	 * Render the template
+	 * Placeholders without value render as empty text (outside of optional
+	 * sections); empty path segments are dropped.
+	 *
+	 * @param values - Placeholder values (except the period placeholders)
+	 * @param period - Payroll period for `{year}`, `{month}` and `{period}`
+	 * @returns Sanitized relative path with "/" as separator
+	 */
+	public render(
+		values: NamingValues,
+		period: PayrollPeriod | null = null,
+	): string {
+		const path = this.renderParts(this.parts, { values, period }) ?? "";
+		const segments = path
+			.split("/")
+			.map((segment) => NamingTemplate.sanitizeSegment(segment))
+			.filter(Boolean);
+		return segments.join("/") || "file";
+	}
+
+	/**
+	 * Render template parts
+	 *
+	 * @returns Rendered text, or null if a placeholder has no value and `required` is set
+	 */
+	private renderParts(
+		parts: TemplatePart[],
+		context: RenderContext,
+		required = false,
+	): string | null {
+		let text = "";
+		for (const part of parts) {
+			if (part.type === "literal") {
+				text += part.text;
+			} else if (part.type === "optional") {
+				text += this.renderParts(part.parts, context, true) ?? "";
+			} else {
+				const value = this.resolve(part, context);
+				if (value === null && required) {
+					return null;
+				}
+				text += value ?? "";
+			}
+		}
+		return text;
+	}
+
+	/**
+	 * Resolve the value of a placeholder (with date format and filters)
+	 * Values cannot contain directory separators.
+	 */
+	private resolve(
+		placeholder: TemplatePlaceholder,
+		{ values, period }: RenderContext,
+	): string | null {
+		const value = PERIOD_PLACEHOLDERS.has(placeholder.name)
+			? formatPeriod(period, placeholder)
+			: (values[placeholder.name] ?? null);
+		if (!value) {
+			return null;
+		}
+
+		return placeholder.filters
+			.reduce((result, filter) => FILTERS[filter]!(result), value)
+			.replace(/[/\\]/g, "_");
+	}
+
+	/**
+	 * Split the template into literals, placeholders and optional sections
+	 *
+	 * @throws {ValidationError} If braces or brackets are unbalanced, or sections are nested
+	 */
+	private parse(): TemplatePart[] {
+		const { template } = this;
+		const parts: TemplatePart[] = [];
+		let optional: TemplatePart[] | null = null;
+		let literal = "";
+
+		const flush = (): void => {
+			if (literal) {
+				(optional ?? parts).push({ type: "literal", text: literal });
+				literal = "";
+			}
+		};
+
+		for (let i = 0; i < template.length; i++) {
+			const char = template[i]!;
+			if (char === "{") {
+				const end = template.indexOf("}", i);
+				if (end < 0) {
+					throw new ValidationError(
+						`Unclosed placeholder in naming template ${template}`,
+					);
+				}
+				flush();
+				(optional ?? parts).push(
+					NamingTemplate.parsePlaceholder(template.slice(i + 1, end), template),
+				);
+				i = end;
+			} else if (char === "[") {
+				if (optional) {
+					throw new ValidationError(
+						`Nested optional sections are not supported in naming template ${template}`,
+					);
+				}
+				flush();
+				optional = [];
+			} else if (char === "]") {
+				if (!optional) {
+					throw new ValidationError(
+						`Unmatched "]" in naming template ${template}`,
+					);
+				}
+				flush();
+				parts.push({ type: "optional", parts: optional });
+				optional = null;
+			} else if (char === "}") {
+				throw new ValidationError(
+					`Unmatched "}" in naming template ${template}`,
+				);
+			} else {
+				literal += char;
+			}
+		}
+
+		if (optional) {
+			throw new ValidationError(
+				`Unclosed optional section in naming template ${template}`,
+			);
+		}
+		flush();
+		return parts;
+	}
+
+	/**
+	 * Check placeholder names, formats and filters
+	 *
+	 * @throws {ValidationError} If a placeholder, format or filter is unknown
+	 */
+	private validate(parts: TemplatePart[]): void {
+		for (const part of parts) {
+			if (part.type === "optional") {
+				this.validate(part.parts);
+				continue;
+			}
+			if (part.type === "literal") {
+				continue;
+			}
+
+			if (!this.placeholders.includes(part.name)) {
+				throw new ValidationError(
+					`Unknown placeholder {${part.name}} in naming template ${this.template}, expected one of ${this.placeholders.map((p) => `{${p}}`).join(", ")}`,
+				);
+			}
+			if (part.format !== null && !FORMAT_PLACEHOLDERS.has(part.name)) {
+				throw new ValidationError(
+					`Placeholder {${part.name}} does not accept a format in naming template ${this.template}`,
+				);
+			}
+			if (part.format !== null && !/yy|M/.test(part.format)) {
+				throw new ValidationError(
+					`Invalid date format ${part.format} in naming template ${this.template}, expected tokens yyyy, yy, MMMM, MM or M`,
+				);
+			}
+			const filter = part.filters.find((name) => !Object.hasOwn(FILTERS, name));
+			if (filter) {
+				throw new ValidationError(
+					`Unknown filter ${filter} in naming template ${this.template}, expected one of ${Object.keys(FILTERS).join(", ")}`,
+				);
+			}
+		}
+	}
+}
@@ -0,0 +1,293 @@
+import { createRequire } from "module";
+import path from "path";
+import * as pdfjsLib from "pdfjs-dist/legacy/build/pdf.mjs";
+
+import { PageLayout } from "../core/page-layout.js";
+import { ValidationError } from "../errors.js";
+
+import type { BasePage, PositionedTextItem } from "../types.js";
+
+/**
+ * Patterns of the built-in field kinds (matched against the raw page text)
+ */
+const FIELD_PATTERNS: Record<RedactionFieldKind, RegExp> = {
+	iban: /\b[A-Z]{2}\d{2}(?:\s?[A-Z0-9]{2,4}){3,8}\b/g,
+	taxId: /(?<!\d)\d{2}\s?\d{3}\s?\d{3}\s?\d{3}(?!\d)/g,
+	socialSecurityNumber: /(?<!\d)\d{2}\s?\d{6}\s?[A-Z]\s?\d{3}(?!\d)/g,
+};
+
+/**
+ * Character replacing redacted text (keeps offsets of the raw text valid)
+ */
+const REDACTION_CHAR = "█";
+
+/**
+ * Field kinds with built-in redaction patterns
+ */
+export type RedactionFieldKind = "iban" | "taxId" | "socialSecurityNumber";
+
+/**
+ * Declarative redaction rule: a built-in field kind or a custom pattern
+ */
+export type RedactionRule = { kind: RedactionFieldKind } | { pattern: RegExp };
+
+export interface RedactorOptions {
+	/**
+	 * Rules selecting the text to redact
+	 */
+	rules: RedactionRule[];
+
+	/**
+	 * Resolution of rasterized PDF pages. Defaults to 150 dpi.
+	 */
+	dpi?: number;
+}
+
+/**
+ * Character range in a text
+ */
+export interface TextRange {
+	offset: number;
+	length: number;
+}
+
+/**
+ * Rasterized page with blacked-out text
+ */
+export interface RedactedPageImage {
+	/** PNG-encoded page image */
+	data: Buffer;
+	/** Page width in points */
+	width: number;
+	/** Page height in points */
+	height: number;
+}
+
+/**
+ * Redactor - removes sensitive values from extracted pages and PDF pages
+ *
+ * Text is redacted character by character, so the length of the text and
+ * all provenance offsets stay the same. PDF pages containing a match are
+ * rasterized with the matching text items blacked out, so no text of those
+ * pages remains in the generated PDF.
+ */
+export class Redactor {
+	/**
+	 * Parse a rule from its textual form: a field kind ("iban", "taxId",
+	 * "socialSecurityNumber") or a regular expression ("/pattern/flags")
+	 *
+	 * @param value - Rule as given on the command line or in a form field
+	 * @returns Redaction rule
+	 * @throws {ValidationError} If the value is neither a field kind nor a valid pattern
+	 */
+	public static parseRule(value: string): RedactionRule {
+		if (Object.hasOwn(FIELD_PATTERNS, value)) {
+			return { kind: value as RedactionFieldKind };
+		}
+
+		const regex = /^\/(.+)\/([a-z]*)$/.exec(value);
+		if (regex) {
+			try {
+				return { pattern: new RegExp(regex[1]!, regex[2]) };
+			} catch (error) {
+				const message =
+					error instanceof Error ? error.message : "Unknown error";
+				throw new ValidationError(
+					`Invalid redaction pattern ${value}: ${message}`,
+				);
+			}
+		}
+
+		throw new ValidationError(
+			`Unknown redaction rule ${value}, expected one of ${Object.keys(FIELD_PATTERNS).join(", ")} or /pattern/flags`,
+		);
+	}
+
+	/**
+	 * Directory of the pdf.js standard fonts (for PDFs without embedded fonts)
+	 */
+	private static standardFontDataUrl(): string {
+		const packageJson = createRequire(import.meta.url).resolve(
+			"pdfjs-dist/package.json",
+		);
+		return path.join(path.dirname(packageJson), "standard_fonts") + path.sep;
+	}
+
+	private readonly patterns: RegExp[];
+	private readonly dpi: number;
+
+	/**
+	 * @throws {ValidationError} If no rules are given
+	 */
+	public constructor(options: RedactorOptions) {
+		if (options.rules.length === 0) {
+			throw new ValidationError("At least one redaction rule is required");
+		}
+
+		// Global flag for matchAll, "d"/"y" would change the match semantics
+		this.patterns = options.rules.map((rule) => {
+			const pattern = "kind" in rule ? FIELD_PATTERNS[rule.kind] : rule.pattern;
+			return new RegExp(
+				pattern.source,
+				pattern.flags.replace(/[gdy]/g, "") + "g",
+			);
+		});
+		this.dpi = options.dpi ?? 150;
+	}
+
+	/**
+	 * Find all ranges of a text matched by the rules
+	 *
+	 * @param text - Text to search
+	 * @returns Non-overlapping ranges ordered by offset
+	 */
+	public findMatches(text: string): TextRange[] {
+		const ranges = this.patterns
+			.flatMap((pattern) => Array.from(text.matchAll(pattern)))
+			.filter((match) => match[0].length > 0)
+			.map((match) => ({ offset: match.index, length: match[0].length }))
+			.sort((a, b) => a.offset - b.offset);
+
+		// Merge overlapping ranges of different rules
+		const merged: TextRange[] = [];
+		for (const range of ranges) {
+			const last = merged[merged.length - 1];
+			if (last && range.offset <= last.offset + last.length) {
+				last.length =
+					Math.max(last.offset + last.length, range.offset + range.length) -
+					last.offset;
+			} else {
+				merged.push({ ...range });
+			}
+		}
+		return merged;
+	}
+
+	/**
+	 * Replace all matched characters (except whitespace) of a text
+	 *
+	 * @param text - Text to redact
+	 * @returns Redacted text of the same length
+	 */
+	public redactText(text: string): string {
+		let redacted = text;
+		for (const { offset, length } of this.findMatches(text)) {
+			redacted =
+				redacted.slice(0, offset) +
+				redacted.slice(offset, offset + length).replace(/\S/g, REDACTION_CHAR) +
+				redacted.slice(offset + length);
+		}
+		return redacted;
+	}
+
+	/**
+	 * Redact the raw text, warning messages and provenance snippets of a page
+	 * Typed fields (e.g. the IBAN needed for SEPA transfers) are kept.
+	 *
+	 * @param page - Extracted page
+	 * @returns Copy of the page with redacted text
+	 */
+	public redactPage<TPage extends BasePage>(page: TPage): TPage {
+		return {
+			...page,
+			rawText: this.redactText(page.rawText),
+			warnings: page.warnings.map((warning) => ({
+				...warning,
+				message: this.redactText(warning.message),
+			})),
+			provenance: Object.fromEntries(
+				Object.entries(page.provenance).map(([field, provenance]) => [
+					field,
+					{ ...provenance, snippet: this.redactText(provenance.snippet) },
+				]),
+			),
+		};
+	}
+
+	/**
+	 * Render the pages of a PDF that contain matches, with the matching text
+	 * items blacked out
+	 *
+	 * @param pdfBuffer - Source PDF
+	 * @param pageIndices - Zero-based indices of the pages to check
+	 * @param password - User password of an encrypted PDF
+	 * @returns Page images by page index (pages without matches are omitted)
+	 */
+	public async renderRedactedPages(
+		pdfBuffer: Buffer,
+		pageIndices: number[],
+		password?: string,
+	): Promise<Map<number, RedactedPageImage>> {
+		const loadingTask = pdfjsLib.getDocument({
+			data: new Uint8Array(pdfBuffer),
+			password,
+			useWorkerFetch: false,
+			isEvalSupported: false,
+			// System fonts are not rendered to a canvas in Node.js, use the
+			// bundled standard fonts instead
+			standardFontDataUrl: Redactor.standardFontDataUrl(),
+		});
+
+		const images = new Map<number, RedactedPageImage>();
+		try {
+			const pdfDoc = await loadingTask.promise;
+			for (const pageIndex of pageIndices) {
+				const page = await pdfDoc.getPage(pageIndex + 1);
+				const layout = await PageLayout.fromPdfPage(page);
+				const items = this.findMatches(layout.rawText).flatMap((range) =>
+					layout.itemsAt(range.offset, range.length),
+				);
+				if (items.length > 0) {
+					images.set(pageIndex, await this.renderPage(page, items));
+				}
+			}
+		} finally {
+			await loadingTask.destroy();
+		}
+
+		return images;
+	}
+
+	/**
+	 * Render a page and black out the given text items
+	 * Items are covered completely, including descenders.
+	 */
+	private async renderPage(
+		page: pdfjsLib.PDFPageProxy,
+		items: PositionedTextItem[],
+	): Promise<RedactedPageImage> {
+		const viewport = page.getViewport({ scale: this.dpi / 72 });
+
+		// Loaded lazily, as only pages with matches are rendered
+		const { createCanvas } = await import("@napi-rs/canvas");
+		const canvas = createCanvas(
+			Math.ceil(viewport.width),
+			Math.ceil(viewport.height),
+		);
+		const context = canvas.getContext("2d");
+		await page.render({ canvasContext: context, viewport }).promise;
+
+		context.fillStyle = "#000000";
+		for (const item of items) {
+			const [x1, y1, x2, y2] = viewport.convertToViewportRectangle([
+				item.x,
+				item.y - item.height * 0.3,
+				item.x + item.width,
+				item.y + item.height,
+			]);
+			context.fillRect(
+				Math.min(x1, x2) - 1,
+				Math.min(y1, y2) - 1,
+				Math.abs(x2 - x1) + 2,
+				Math.abs(y2 - y1) + 2,
+			);
+		}
+
+		const unscaled = page.getViewport({ scale: 1 });
+		return {
+			data: canvas.toBuffer("image/png"),
+			width: unscaled.width,
+			height: unscaled.height,
+		};
+	}
+}
@@ -3,12 +3,7 @@
  * These helper functions enable TypeScript type narrowing for discriminated unions
  */
 
-import type {
-	ExtractedPage,
-	LOGN17Page,
-	LOMS05Page,
-	UnknownPage,
-} from "./types.js";
+import type { BasePage, LOGN17Page, LOMS05Page, UnknownPage } from "./types.js";
 
 /**
  * Type guard to check if a page is a LOGN17 (employee salary statement) page
@@ -24,7 +19,7 @@ import type {
  * @param page - The extracted page to check
  * @returns true if page is a LOGN17Page
  */
-export function isLOGN17Page(page: ExtractedPage): page is LOGN17Page {
+export function isLOGN17Page(page: BasePage): page is LOGN17Page {
 	return page.formType === "LOGN17";
 }
 
@@ -42,7 +37,7 @@ export function isLOGN17Page(page: ExtractedPage): page is LOGN17Page {
  * @param page - The extracted page to check
  * @returns true if page is a LOMS05Page
  */
-export function isLOMS05Page(page: ExtractedPage): page is LOMS05Page {
+export function isLOMS05Page(page: BasePage): page is LOMS05Page {
 	return page.formType === "LOMS05";
 }
 
@@ -61,7 +56,7 @@ export function isLOMS05Page(page: ExtractedPage): page is LOMS05Page {
  * @param page - The extracted page to check
  * @returns true if page is an UnknownPage
  */
-export function isUnknownPage(page: ExtractedPage): page is UnknownPage {
+export function isUnknownPage(page: BasePage): page is UnknownPage {
 	return page.formType === "UNKNOWN";
 }
 
@@ -78,7 +73,7 @@ export function isUnknownPage(page: ExtractedPage): page is UnknownPage {
  * @returns true if page has a personnel number (LOGN17 or LOMS05)
  */
 export function isEmployeePage(
-	page: ExtractedPage,
+	page: BasePage,
 ): page is LOGN17Page | LOMS05Page {
 	return page.formType === "LOGN17" || page.formType === "LOMS05";
 }
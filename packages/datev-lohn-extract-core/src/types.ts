@@ -3,47 +3,313 @@
  * Object-oriented architecture with discriminated union types
  */
 
+import type { Money } from "./money.js";
+import type { PayrollPeriod } from "./period.js";
+
 /**
  * Form type codes used in DATEV documents
+ * Custom form handlers may use additional codes (see {@link BasePage})
  */
 export type FormType = "LOGN17" | "LOMS05" | "UNKNOWN";
 
 /**
- * Date information extracted from text
+ * Origin of the text of a page
+ * - "pdf": text layer of the PDF
+ * - "ocr": optical character recognition of the rendered page (scans)
+ */
+export type TextSource = "pdf" | "ocr";
+
+/**
+ * Warning codes reported during extraction
+ * - INVALID_IBAN: the extracted IBAN fails the length or checksum validation
+ * - OCR_TEXT: the page text was recognized by OCR, values need to be reviewed
+ * - MISSING_PERIOD: the payroll period of a salary statement is unknown, so it
+ *   is not booked in the DATEV Buchungsstapel (reported by DatevLohnProcessor)
+ */
+export type ExtractionWarningCode =
+	| "INVALID_IBAN"
+	| "OCR_TEXT"
+	| "MISSING_PERIOD";
+
+/**
+ * Non-fatal issue found while extracting a page
+ */
+export interface ExtractionWarning {
+	/** Machine-readable warning code */
+	code: ExtractionWarningCode;
+	/** Human-readable description */
+	message: string;
+	/** Affected page field, if any */
+	field: string | null;
+}
+
+// ============================================================================
+// Layout Types (positional text model)
+// ============================================================================
+
+/**
+ * Axis-aligned bounding box in PDF user space
+ * Origin is the bottom-left corner of the page, units are points
+ */
+export interface BoundingBox {
+	x: number;
+	y: number;
+	width: number;
+	height: number;
+}
+
+/**
+ * Single text item from the PDF text layer with its position
+ */
+export interface PositionedTextItem extends BoundingBox {
+	/** Text content of the item */
+	text: string;
+}
+
+/**
+ * Group of horizontally adjacent text items within a line (table cell)
+ */
+export interface TextCell extends BoundingBox {
+	/** Text of all items in the cell */
+	text: string;
+	/** Items forming this cell, ordered left to right */
+	items: PositionedTextItem[];
+}
+
+/**
+ * Reconstructed text line (items sharing the same baseline)
+ */
+export interface TextLine extends BoundingBox {
+	/** Text of the whole line, cells separated by a single space */
+	text: string;
+	/** Items on this line, ordered left to right */
+	items: PositionedTextItem[];
+	/** Cells detected on this line, ordered left to right */
+	cells: TextCell[];
+}
+
+// ============================================================================
+// Provenance Types (where an extracted value came from)
+// ============================================================================
+
+/**
+ * Origin of a single extracted field value
+ */
+export interface FieldProvenance {
+	/** Identifier of the pattern or lookup that produced the value (e.g. "LOGN17.netto.payoutLabel") */
+	patternId: string;
+	/** Matched text snippet */
+	snippet: string;
+	/** Character offset of the value in the page's rawText, or null if unknown */
+	offset: number | null;
+	/** Position of the value on the page, or null if not available */
+	boundingBox: BoundingBox | null;
+	/** Heuristic confidence between 0 (guess) and 1 (certain) */
+	confidence: number;
+}
+
+/**
+ * Provenance of the extracted fields of a page, keyed by field path
+ * Nested fields use dot notation ("deductions.lohnsteuer", "lineItems.0").
+ * Fields that were not found have no entry.
+ */
+export type FieldProvenanceMap = Record<string, FieldProvenance>;
+
+/**
+ * Kind of a wage-type line item on a salary statement
+ * - "bezug": Brutto-Bezüge (gross earnings table)
+ * - "abzug": Netto-Be-/Abzüge (deductions/additions after net salary)
+ */
+export type LineItemKind = "bezug" | "abzug";
+
+/**
+ * Single wage-type (Lohnart) row from the Bezüge/Abzüge table of a LOGN17 page
+ */
+export interface LOGN17LineItem {
+	/** Table section the row was found in */
+	kind: LineItemKind;
+	/** Lohnart number (e.g. "2000") */
+	wageType: string;
+	/** Lohnart description (e.g. "Gehalt", "Urlaubsgeld") */
+	description: string;
+	/** Quantity (days/hours) as decimal string, or null */
+	quantity: string | null;
+	/** Factor or percentage as decimal string, or null */
+	factor: string | null;
+	/** Amount (negative for deductions) */
+	amount: Money;
+	/** Tax flag (St), e.g. "L" laufend, "S" sonstiger Bezug, "F" frei, "P" pauschal */
+	taxFlag: string | null;
+	/** Social security flag (SV), e.g. "L" laufend, "E" Einmalbezug, "F" frei, "P" pauschal */
+	socialSecurityFlag: string | null;
+	/** Whether the row is included in the total gross (GB), or null if unknown */
+	includedInGross: boolean | null;
+}
+
+/**
+ * Tax and social-security deductions from a LOGN17 page
+ * All amounts are null if not found
+ */
+export interface LOGN17Deductions {
+	/** Taxable gross (Steuer-Brutto) */
+	steuerBrutto: Money | null;
+	/** Income tax (Lohnsteuer) */
+	lohnsteuer: Money | null;
+	/** Solidarity surcharge (Solidaritätszuschlag) */
+	solidaritaetszuschlag: Money | null;
+	/** Church tax (Kirchensteuer) */
+	kirchensteuer: Money | null;
+	/** Social security gross (SV-Brutto) */
+	svBrutto: Money | null;
+	/** Employee share of health insurance (KV) */
+	krankenversicherung: Money | null;
+	/** Employee share of pension insurance (RV) */
+	rentenversicherung: Money | null;
+	/** Employee share of unemployment insurance (AV) */
+	arbeitslosenversicherung: Money | null;
+	/** Employee share of long-term care insurance (PV) */
+	pflegeversicherung: Money | null;
+}
+
+/**
+ * Correction run (Rückrechnung / Korrekturabrechnung) of an earlier payroll period
+ * The statement repeats the corrected period; only the difference is paid.
+ */
+export interface LOGN17Correction {
+	/** Payroll period the correction applies to (the page's own period if not stated), or null if unknown */
+	correctedPeriod: PayrollPeriod | null;
+	/** Difference to the previously paid payout amount (Differenz), or null if not found */
+	nettoDifference: Money | null;
+}
+
+/**
+ * Employee master data from the header of a LOGN17 page
+ * All values are null if not found
+ */
+export interface LOGN17EmployeeData {
+	/** Tax class (Steuerklasse), "1" to "6" */
+	taxClass: string | null;
+	/** Child allowances (Kinderfreibeträge) as decimal string, e.g. "1.5" */
+	childAllowances: string | null;
+	/** Denomination for church tax (Konfession), e.g. "ev", "rk", "--" */
+	denomination: string | null;
+	/** Tax identification number (Steuer-ID), 11 digits */
+	taxId: string | null;
+	/** Social-security number (SV-Nummer), 12 characters without spaces */
+	socialSecurityNumber: string | null;
+	/** Health insurance fund (Krankenkasse) */
+	healthInsurance: string | null;
+	/** Person group key (Personengruppe), e.g. "101" */
+	personGroup: string | null;
+	/** Contribution group key (Beitragsgruppe), e.g. "1111" */
+	contributionGroup: string | null;
+	/** Date of birth (YYYY-MM-DD) */
+	birthDate: string | null;
+	/** Entry date (Eintritt, YYYY-MM-DD) */
+	entryDate: string | null;
+	/** Exit date (Austritt, YYYY-MM-DD) */
+	exitDate: string | null;
+}
+
+/**
+ * Postal address of the employee from the address window of the salary statement
  */
-export interface DateInfo {
-	/** Month name (German) or null if year-only */
-	month: string | null;
-	/** Year as string or null */
-	year: string | null;
+export interface LOGN17Address {
+	/** Recipient name (without salutation), or null if not found */
+	name: string | null;
+	/** c/o recipient (without the "c/o" prefix) */
+	careOf: string | null;
+	/** Street name */
+	street: string;
+	/** House number including suffixes (e.g. "12a", "3-5") */
+	houseNumber: string;
+	/** Five-digit German postal code */
+	postalCode: string;
+	/** City */
+	city: string;
 }
 
 // ============================================================================
 // Core Extraction Types (Headless Layer) - Discriminated Union
 // ============================================================================
 
+/**
+ * Fields shared by all page types
+ * Custom form handlers produce page types extending this interface
+ * with their own form type code and form-specific fields.
+ */
+export interface BasePage {
+	formType: string;
+	pageIndex: number;
+	rawText: string;
+	textSource: TextSource;
+
+	// Identity
+	personnelNumber: string | null;
+	employeeName: string | null;
+
+	// Payroll period
+	period: PayrollPeriod | null;
+
+	// Non-fatal extraction issues
+	warnings: ExtractionWarning[];
+
+	// Origin and confidence of the extracted fields
+	provenance: FieldProvenanceMap;
+
+	// Flags
+	isFirstPage: boolean;
+	isCompanyWide: boolean;
+}
+
 /**
  * LOGN17 - Individual Employee Salary Statement
  * Contains detailed financial data for a single employee
  */
-export interface LOGN17Page {
+export interface LOGN17Page extends BasePage {
 	formType: "LOGN17";
 	pageIndex: number;
 	rawText: string;
+	textSource: TextSource;
 
 	// Identity
 	personnelNumber: string | null;
 	employeeName: string | null;
 
-	// Date (monthly)
-	year: string | null;
-	month: string | null;
+	// Payroll period
+	period: PayrollPeriod | null;
 
 	// Financial data
-	brutto: string | null;
-	netto: string | null;
+	brutto: Money | null;
+	netto: Money | null;
 	iban: string | null;
 
+	// Bank data (IBAN validation and offline BLZ lookup)
+	ibanValid: boolean | null;
+	bic: string | null;
+	bankName: string | null;
+
+	// Tax and social-security deductions
+	deductions: LOGN17Deductions;
+
+	// Employee master data from the statement header
+	employee: LOGN17EmployeeData;
+
+	// Wage-type line items (Bezüge and Netto-Be-/Abzüge)
+	lineItems: LOGN17LineItem[];
+
+	// Correction run of an earlier period, or null for a regular statement
+	correction: LOGN17Correction | null;
+
+	// Postal address from the address window, or null if not found
+	address: LOGN17Address | null;
+
+	// Non-fatal extraction issues
+	warnings: ExtractionWarning[];
+
+	// Origin and confidence of the extracted fields
+	provenance: FieldProvenanceMap;
+
 	// Flags
 	isFirstPage: boolean;
 	isCompanyWide: false; // LOGN17 is always individual
@@ -53,18 +319,24 @@ export interface LOGN17Page {
  * LOMS05 - Social Security Notification (Meldebescheinigung zur Sozialversicherung)
  * Minimal extraction - only personnel number matters for identification
  */
-export interface LOMS05Page {
+export interface LOMS05Page extends BasePage {
 	formType: "LOMS05";
 	pageIndex: number;
 	rawText: string;
+	textSource: TextSource;
 
 	// Identity (minimal - only Pers.-Nr. matters)
 	personnelNumber: string | null;
 	employeeName: null; // Not extracted from this form
 
-	// Date (monthly)
-	year: string | null;
-	month: string | null;
+	// Payroll period
+	period: PayrollPeriod | null;
+
+	// Non-fatal extraction issues
+	warnings: ExtractionWarning[];
+
+	// Origin and confidence of the extracted fields
+	provenance: FieldProvenanceMap;
 
 	// Flags
 	isFirstPage: boolean;
@@ -75,10 +347,11 @@ export interface LOMS05Page {
  * Unknown Form - Fallback for unrecognized forms
  * Treated as company-wide documents with minimal extraction (dates only for grouping)
  */
-export interface UnknownPage {
+export interface UnknownPage extends BasePage {
 	formType: "UNKNOWN";
 	pageIndex: number;
 	rawText: string;
+	textSource: TextSource;
 
 	// Detected form code (if any explicit form number was found)
 	detectedFormCode: string | null;
@@ -87,9 +360,14 @@ export interface UnknownPage {
 	personnelNumber: null;
 	employeeName: null;
 
-	// Date extraction for grouping purposes
-	year: string | null;
-	month: string | null;
+	// Payroll period for grouping purposes
+	period: PayrollPeriod | null;
+
+	// Non-fatal extraction issues
+	warnings: ExtractionWarning[];
+
+	// Origin and confidence of the extracted fields
+	provenance: FieldProvenanceMap;
 
 	// Flags
 	isFirstPage: true; // Treat all unknown pages as first pages
@@ -106,28 +384,52 @@ export type ExtractedPage = LOGN17Page | LOMS05Page | UnknownPage;
 // Grouping Layer Types
 // ============================================================================
 
+/**
+ * Salary statement of an employee, spanning one or more consecutive LOGN17 pages
+ * The correction status is recorded once per statement, so continuation pages
+ * without the correction marker belong to the correction run.
+ */
+export interface PayrollStatement {
+	/** LOGN17 pages of the statement in document order */
+	pages: LOGN17Page[];
+	/** Page with the totals (the first page with a netto amount, else the first page) */
+	totalsPage: LOGN17Page;
+	/** Correction run of the statement (difference from any of its pages), or null for a regular statement */
+	correction: LOGN17Correction | null;
+}
+
 /**
  * Group of pages belonging to a single employee
+ *
+ * @template TPage - Page type (extended when custom form handlers are registered)
  */
-export interface PersonnelGroup {
+export interface PersonnelGroup<TPage extends BasePage = ExtractedPage> {
 	/** Personnel number for this group */
 	personnelNumber: string;
 	/** Employee name */
 	employeeName: string;
 	/** All pages in this group */
-	pages: ExtractedPage[];
-	/** Date information (from first page) */
-	dateInfo: DateInfo;
+	pages: TPage[];
+	/** Payroll period (from the first page with a period, or the group's period when grouped by period), or null if unknown */
+	period: PayrollPeriod | null;
+	/** Whether the group holds correction statements only (grouping by period) */
+	isCorrection: boolean;
+	/** Salary statements of the group in document order (regular and correction runs) */
+	statements: PayrollStatement[];
+	/** Employee master data (from the first salary statement page), or null without one */
+	employee: LOGN17EmployeeData | null;
 }
 
 /**
  * Group of company-wide pages (without personnel numbers)
+ *
+ * @template TPage - Page type (extended when custom form handlers are registered)
  */
-export interface CompanyGroup {
+export interface CompanyGroup<TPage extends BasePage = ExtractedPage> {
 	/** All company-wide pages */
-	pages: ExtractedPage[];
-	/** Date information if available */
-	dateInfo: DateInfo | null;
+	pages: TPage[];
+	/** Payroll period if available */
+	period: PayrollPeriod | null;
 }
 
 // ============================================================================
@@ -146,8 +448,12 @@ export interface GeneratedPersonnelPdf {
 	personnelNumber: string;
 	/** Employee name */
 	employeeName: string;
-	/** Date information */
-	dateInfo: DateInfo;
+	/** Payroll period, or null if unknown */
+	period: PayrollPeriod | null;
+	/** Whether the PDF holds correction statements only */
+	isCorrection: boolean;
+	/** Whether the PDF is encrypted with a user password */
+	isEncrypted: boolean;
 }
 
 /**
@@ -158,6 +464,181 @@ export interface GeneratedCompanyPdf {
 	data: Buffer;
 	/** Number of pages in the PDF */
 	pageCount: number;
-	/** Date information (if available) */
-	dateInfo: DateInfo | null;
+	/** Payroll period (if available) */
+	period: PayrollPeriod | null;
+}
+
+/**
+ * Output format of the payroll summary
+ */
+export type PayrollSummaryFormat = "json" | "csv" | "xlsx";
+
+/**
+ * Summary of a personnel group (one row of the payroll summary)
+ */
+export interface PayrollSummaryRow {
+	/** Personnel number */
+	personnelNumber: string;
+	/** Employee name */
+	employeeName: string;
+	/** Payroll period, or null if unknown */
+	period: PayrollPeriod | null;
+	/** Whether the group holds correction statements only (grouping by period) */
+	isCorrection: boolean;
+	/** Sum of the gross salaries of the regular statements, or null if not found */
+	brutto: Money | null;
+	/** Sum of the payouts of the regular statements, or null if not found */
+	netto: Money | null;
+	/** Sum of the netto differences of the correction runs, or null without one */
+	nettoDifference: Money | null;
+	/** IBAN of the salary statement, or null if not found */
+	iban: string | null;
+	/** Number of pages of the group */
+	pageCount: number;
+	/** Distinct form types of the pages, in page order */
+	formTypes: string[];
+	/** Extraction warning messages of the pages */
+	warnings: string[];
 }
+
+/**
+ * Totals of the payroll summary
+ */
+export interface PayrollSummaryTotals {
+	/** Number of distinct personnel numbers */
+	employees: number;
+	/** Sum of all known gross salaries */
+	brutto: Money;
+	/** Sum of all known payouts */
+	netto: Money;
+	/** Sum of all known netto differences */
+	nettoDifference: Money;
+	/** Number of pages of all groups */
+	pageCount: number;
+	/** Number of extraction warnings */
+	warnings: number;
+}
+
+/**
+ * Payroll summary: one row per personnel group, with totals
+ */
+export interface PayrollSummary {
+	rows: PayrollSummaryRow[];
+	totals: PayrollSummaryTotals;
+}
+
+/**
+ * Booking of a DATEV Buchungsstapel (one data row of the EXTF file)
+ */
+export interface DatevBooking {
+	/** Amount (Umsatz), always positive */
+	amount: Money;
+	/** Whether the account is debited ("S", Soll) or credited ("H", Haben) */
+	debitCredit: "S" | "H";
+	/** Account (Konto) */
+	account: string;
+	/** Contra account (Gegenkonto) */
+	contraAccount: string;
+	/** Document date (Belegdatum): last day of the payroll period, YYYY-MM-DD */
+	date: string;
+	/** Document number (Belegfeld 1), e.g. "LOHN-202510-12345" */
+	documentNumber: string;
+	/** Posting text (Buchungstext), e.g. "Lohnsteuer Oktober 2025 Max Mustermann" */
+	text: string;
+	/** Personnel number of the booked statement */
+	personnelNumber: string;
+}
+
+// ============================================================================
+// Pipeline Layer Types
+// ============================================================================
+
+/**
+ * Extraction warning with the page it belongs to
+ */
+export interface ProcessingWarning extends ExtractionWarning {
+	/** 0-based page index */
+	pageIndex: number;
+	/** Personnel number of the page, or null for company-wide pages */
+	personnelNumber: string | null;
+}
+
+/**
+ * Field provenance of a page
+ */
+export interface PageProvenance {
+	/** 0-based page index */
+	pageIndex: number;
+	/** Form type of the page */
+	formType: string;
+	/** Personnel number of the page, or null for company-wide pages */
+	personnelNumber: string | null;
+	/** Origin and confidence of the extracted fields */
+	fields: FieldProvenanceMap;
+}
+
+/**
+ * Summary of a processing run (content of metadata.json)
+ */
+export interface ProcessingMetadata {
+	/** Payroll period (from the first generated PDF), or null without PDFs or period */
+	period: PayrollPeriod | null;
+	/** Number of generated PDFs */
+	fileCount: {
+		personnel: number;
+		company: number;
+	};
+	/** Extraction warnings of all pages */
+	warnings: ProcessingWarning[];
+	/** Field provenance of all pages (only if requested) */
+	provenance?: PageProvenance[];
+}
+
+/**
+ * File produced by a processing run
+ * `path` is a suggested, sanitized file name relative to the output directory.
+ */
+export type ProcessingArtifact =
+	| {
+			kind: "personnel-pdf";
+			path: string;
+			data: Buffer;
+			metadata: Omit<GeneratedPersonnelPdf, "data">;
+	  }
+	| {
+			kind: "company-pdf";
+			path: string;
+			data: Buffer;
+			metadata: Omit<GeneratedCompanyPdf, "data">;
+	  }
+	| {
+			kind: "sepa-transfers";
+			path: string;
+			data: string;
+			metadata: { format: "csv" | "pain001" };
+	  }
+	| {
+			kind: "payroll-summary";
+			path: string;
+			/** JSON or CSV text, or the XLSX workbook */
+			data: string | Buffer;
+			metadata: { format: PayrollSummaryFormat };
+	  }
+	| {
+			kind: "datev-booking-batch";
+			path: string;
+			/** EXTF CSV in Windows-1252 encoding */
+			data: Buffer;
+			metadata: { bookingCount: number };
+	  }
+	| {
+			kind: "metadata";
+			path: string;
+			data: string;
+			metadata: ProcessingMetadata;
+	  };
+
+/**
+ * Kind of a processing artifact
+ */
+export type ProcessingArtifactKind = ProcessingArtifact["kind"];
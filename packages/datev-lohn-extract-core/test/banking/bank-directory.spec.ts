@@ -0,0 +1,86 @@
+import { describe, expect, it } from "vitest";
+
+import { BankDirectory } from "../../src/banking/bank-directory.js";
+
+/**
+ * Line of the Bundesbank BLZ table (168 characters)
+ */
+function blzLine(entry: {
+	blz: string;
+	feature: "1" | "2";
+	name: string;
+	bic: string;
+}): string {
+	const { blz, feature, name, bic } = entry;
+	return [
+		blz,
+		feature,
+		name.padEnd(58),
+		"10117",
+		"Berlin".padEnd(35),
+		name.slice(0, 27).padEnd(27),
+		"".padEnd(5),
+		bic.padEnd(11),
+		"09",
+		"000001",
+		"U",
+		"0",
+		"00000000",
+	].join("");
+}
+
+describe("BankDirectory.parse", () => {
+	const directory = BankDirectory.parse(
+		[
+			blzLine({
+				blz: "10070000",
+				feature: "1",
+				name: "Deutsche Bank",
+				bic: "DEUTDEBBXXX",
+			}),
+			blzLine({
+				blz: "10070000",
+				feature: "2",
+				name: "Deutsche Bank Filiale",
+				bic: "",
+			}),
+			blzLine({
+				blz: "12030000",
+				feature: "1",
+				name: "Deutsche Kreditbank Berlin",
+				bic: "",
+			}),
+		].join("\r\n"),
+	);
+
+	it("reads the main entries", () => {
+		expect(directory.size).toBe(2);
+		expect(directory.lookupBlz("100 700 00")).toEqual({
+			blz: "10070000",
+			bic: "DEUTDEBBXXX",
+			name: "Deutsche Bank",
+			shortName: "Deutsche Bank",
+			postalCode: "10117",
+			city: "Berlin",
+		});
+		expect(directory.lookupBlz("12030000")?.bic).toBeNull();
+	});
+
+	it("looks up German IBANs only", () => {
+		expect(directory.lookupIban("DE02 1007 0000 0123 4567 89")?.blz).toBe(
+			"10070000",
+		);
+		expect(directory.lookupIban("AT611904300234573201")).toBeNull();
+	});
+});
+
+describe("BankDirectory.getDefault", () => {
+	it("resolves BICs from the bundled BLZ table", () => {
+		const directory = BankDirectory.getDefault();
+
+		expect(directory.size).toBeGreaterThan(1000);
+		expect(directory.lookupIban("DE89370400440532013000")?.bic).toBe(
+			"COBADEFFXXX",
+		);
+	});
+});
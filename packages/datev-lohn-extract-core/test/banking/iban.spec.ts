@@ -0,0 +1,34 @@
+import { describe, expect, it } from "vitest";
+
+import { isValidIban, validateIban } from "../../src/banking/iban.js";
+
+describe("validateIban", () => {
+	it.each([
+		"DE89 3704 0044 0532 0130 00",
+		"de89370400440532013000",
+		"AT611904300234573201",
+		"GB29NWBK60161331926819",
+		"NL91ABNA0417164300",
+	])("accepts %s", (iban) => {
+		expect(isValidIban(iban)).toBe(true);
+	});
+
+	it("normalizes the IBAN", () => {
+		expect(validateIban("de89 3704 0044 0532 0130 00")).toEqual({
+			valid: true,
+			iban: "DE89370400440532013000",
+			error: null,
+		});
+	});
+
+	it.each([
+		["DE89-3704-0044-0532-0130-00", "FORMAT"],
+		["", "FORMAT"],
+		["ZZ89370400440532013000", "COUNTRY"],
+		["DE8937040044053201300", "LENGTH"],
+		["DE88370400440532013000", "CHECKSUM"],
+		["DE89370400440532013001", "CHECKSUM"],
+	])("rejects %j with %s", (iban, error) => {
+		expect(validateIban(iban)).toMatchObject({ valid: false, error });
+	});
+});
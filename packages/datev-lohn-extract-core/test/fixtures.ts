@@ -0,0 +1,102 @@
+import { Money } from "../src/money.js";
+import { PayrollPeriod } from "../src/period.js";
+
+import type {
+	LOGN17Correction,
+	LOGN17Page,
+	PayrollStatement,
+	PersonnelGroup,
+} from "../src/types.js";
+
+/**
+ * Regular salary statement page for October 2025, with fields replaced
+ */
+export function logn17Page(fields: Partial<LOGN17Page> = {}): LOGN17Page {
+	return {
+		formType: "LOGN17",
+		pageIndex: 0,
+		rawText: "",
+		textSource: "pdf",
+		personnelNumber: "12345",
+		employeeName: "Max Mustermann",
+		period: PayrollPeriod.of(2025, 10),
+		brutto: Money.parseGerman("3.500,00"),
+		netto: Money.parseGerman("2.345,67"),
+		iban: "DE89370400440532013000",
+		ibanValid: true,
+		bic: "COBADEFFXXX",
+		bankName: "Commerzbank",
+		deductions: {
+			steuerBrutto: Money.parseGerman("3.500,00"),
+			lohnsteuer: Money.parseGerman("412,50"),
+			solidaritaetszuschlag: null,
+			kirchensteuer: Money.parseGerman("33,00"),
+			svBrutto: Money.parseGerman("3.500,00"),
+			krankenversicherung: Money.parseGerman("285,25"),
+			rentenversicherung: Money.parseGerman("325,50"),
+			arbeitslosenversicherung: Money.parseGerman("45,50"),
+			pflegeversicherung: Money.parseGerman("52,58"),
+		},
+		employee: {
+			taxClass: "1",
+			childAllowances: null,
+			denomination: "ev",
+			taxId: null,
+			socialSecurityNumber: null,
+			healthInsurance: null,
+			personGroup: "101",
+			contributionGroup: null,
+			birthDate: null,
+			entryDate: null,
+			exitDate: null,
+		},
+		lineItems: [],
+		correction: null,
+		address: null,
+		warnings: [],
+		provenance: {},
+		isFirstPage: true,
+		isCompanyWide: false,
+		...fields,
+	};
+}
+
+/**
+ * Correction run page paying the given difference for a corrected period
+ */
+export function correctionPage(
+	difference: string,
+	correctedPeriod: PayrollPeriod,
+	fields: Partial<LOGN17Page> = {},
+): LOGN17Page {
+	const correction: LOGN17Correction = {
+		correctedPeriod,
+		nettoDifference: Money.parseGerman(difference),
+	};
+	return logn17Page({ correction, ...fields });
+}
+
+/**
+ * Personnel group of salary statement pages (one statement per page)
+ */
+export function personnelGroup(
+	pages: LOGN17Page[],
+	fields: Partial<PersonnelGroup<LOGN17Page>> = {},
+): PersonnelGroup<LOGN17Page> {
+	const statements: PayrollStatement[] = pages.map((page) => ({
+		pages: [page],
+		totalsPage: page,
+		correction: page.correction,
+	}));
+	const first = pages[0];
+	return {
+		personnelNumber: first?.personnelNumber ?? "12345",
+		employeeName: first?.employeeName ?? "Max Mustermann",
+		pages,
+		period: first?.period ?? null,
+		isCorrection: pages.every((page) => !!page.correction),
+		statements,
+		employee: first?.employee ?? null,
+		...fields,
+	};
+}
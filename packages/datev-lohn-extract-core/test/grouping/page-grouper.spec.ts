@@ -0,0 +1,131 @@
+import { describe, expect, it } from "vitest";
+
+import { PageGrouper } from "../../src/grouping/page-grouper.js";
+import { PayrollPeriod } from "../../src/period.js";
+import { correctionPage, logn17Page } from "../fixtures.js";
+
+import type { BasePage } from "../../src/types.js";
+
+const september = PayrollPeriod.of(2025, 9);
+
+/**
+ * Indices of grouped pages
+ */
+function pageIndices(pages: BasePage[]): number[] {
+	return pages.map((page) => page.pageIndex);
+}
+
+/**
+ * Company-wide page (e.g. a payroll journal) without personnel number
+ */
+function companyPage(
+	pageIndex: number,
+	period: PayrollPeriod | null,
+): BasePage {
+	return {
+		formType: "LOJO",
+		pageIndex,
+		rawText: "",
+		textSource: "pdf",
+		personnelNumber: null,
+		employeeName: null,
+		period,
+		warnings: [],
+		provenance: {},
+		isFirstPage: true,
+		isCompanyWide: true,
+	};
+}
+
+// Two months of employee 12345 with a continuation page, a correction run for
+// August, employee 67890 and an undated company page
+const pages: BasePage[] = [
+	logn17Page({ pageIndex: 0, period: september }),
+	logn17Page({ pageIndex: 1 }),
+	logn17Page({
+		pageIndex: 2,
+		personnelNumber: null,
+		period: null,
+		netto: null,
+		isFirstPage: false,
+	}),
+	correctionPage("120,50", PayrollPeriod.of(2025, 8), { pageIndex: 3 }),
+	logn17Page({ pageIndex: 4, personnelNumber: "67890" }),
+	companyPage(5, null),
+];
+
+const grouper = new PageGrouper();
+
+describe("PageGrouper.groupByPersonnel", () => {
+	it("creates one group per personnel number with all statements", () => {
+		const { personnelGroups } = grouper.groupByPersonnel(pages);
+
+		expect(personnelGroups.map((g) => g.personnelNumber)).toEqual([
+			"12345",
+			"67890",
+		]);
+		const [group] = personnelGroups;
+		expect(group?.period).toEqual(september);
+		expect(group?.isCorrection).toBe(false);
+		expect(group?.statements.map((s) => pageIndices(s.pages))).toEqual([
+			[0],
+			[1, 2],
+			[3],
+		]);
+		expect(group?.statements.map((s) => !!s.correction)).toEqual([
+			false,
+			false,
+			true,
+		]);
+	});
+
+	it("keeps undated company pages undated for mixed periods", () => {
+		const { companyGroups } = grouper.groupByPersonnel(pages);
+
+		expect(companyGroups).toHaveLength(1);
+		expect(companyGroups[0]?.period).toBeNull();
+		expect(pageIndices(companyGroups[0]?.pages ?? [])).toEqual([5]);
+	});
+});
+
+describe("PageGrouper.groupByPersonnelAndPeriod", () => {
+	it("creates one group per personnel number and period", () => {
+		const { personnelGroups } = grouper.groupByPersonnelAndPeriod(pages);
+
+		expect(
+			personnelGroups.map((g) => [
+				g.personnelNumber,
+				g.period?.toISOString(),
+				g.isCorrection,
+				pageIndices(g.pages),
+			]),
+		).toEqual([
+			["12345", "2025-09", false, [0]],
+			["12345", "2025-10", false, [1, 2]],
+			["12345", "2025-08", true, [3]],
+			["67890", "2025-10", false, [4]],
+		]);
+	});
+
+	it("takes the totals from the page with the netto amount", () => {
+		const { personnelGroups } = grouper.group(pages, "period");
+
+		expect(personnelGroups[1]?.statements[0]?.totalsPage.pageIndex).toBe(1);
+		expect(
+			personnelGroups[2]?.statements[0]?.correction?.nettoDifference?.formatGerman(),
+		).toBe("120,50");
+	});
+
+	it("dates undated company pages with the shared period", () => {
+		const { companyGroups } = grouper.groupByPersonnelAndPeriod([
+			logn17Page({ pageIndex: 0 }),
+			companyPage(1, null),
+			companyPage(2, september),
+		]);
+
+		expect(companyGroups.map((g) => g.period?.toISOString())).toEqual([
+			"2025-10",
+			"2025-09",
+		]);
+	});
+});
@@ -0,0 +1,65 @@
+import { describe, expect, it } from "vitest";
+
+import { ValidationError } from "../src/errors.js";
+import { Money } from "../src/money.js";
+
+describe("Money.parseGerman", () => {
+	it.each([
+		["1.234,56", 123456],
+		["1234,56", 123456],
+		["1.234.567,5", 123456750],
+		["40", 4000],
+		["0,07", 7],
+		["1.234,56-", -123456],
+		["-40,00", -4000],
+		["+40,00", 4000],
+		["2.345,67 €", 234567],
+		["12,00 EUR", 1200],
+	])("parses %s", (value, cents) => {
+		expect(Money.parseGerman(value).cents).toBe(cents);
+	});
+
+	it.each(["", "abc", "1,234", "12.34", "1.23,45", "1,2,3", "--1,00"])(
+		"rejects %j",
+		(value) => {
+			expect(() => Money.parseGerman(value)).toThrow(ValidationError);
+			expect(Money.tryParseGerman(value)).toBeNull();
+		},
+	);
+});
+
+describe("Money.formatGerman", () => {
+	it("groups thousands and places the sign", () => {
+		const money = Money.fromCents(-123456789);
+
+		expect(money.formatGerman()).toBe("-1.234.567,89");
+		expect(money.formatGerman({ trailingMinus: true })).toBe("1.234.567,89-");
+		expect(Money.fromCents(5).formatGerman()).toBe("0,05");
+	});
+});
+
+describe("Money.sum", () => {
+	it("adds exact cents", () => {
+		const total = Money.sum(
+			["0,10", "0,20", "0,30"].map((value) => Money.parseGerman(value)),
+		);
+
+		expect(total.toDecimalString()).toBe("0.60");
+		expect(Money.sum([]).isZero()).toBe(true);
+	});
+
+	it("rejects mixed currencies", () => {
+		expect(() =>
+			Money.sum([Money.fromCents(100), Money.fromCents(100, "CHF")]),
+		).toThrow(ValidationError);
+	});
+});
+
+describe("Money.toJSON", () => {
+	it("round-trips through JSON", () => {
+		const money = Money.parseGerman("1.234,56-");
+
+		expect(money.toJSON()).toEqual({ amount: "-1234.56", currency: "EUR" });
+		expect(Money.fromJSON(money.toJSON()).equals(money)).toBe(true);
+	});
+});
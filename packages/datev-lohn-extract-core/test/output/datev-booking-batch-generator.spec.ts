@@ -0,0 +1,173 @@
+import { describe, expect, it } from "vitest";
+
+import { ValidationError } from "../../src/errors.js";
+import { DatevBookingBatchGenerator } from "../../src/output/datev-booking-batch-generator.js";
+import { PayrollPeriod } from "../../src/period.js";
+import { correctionPage, logn17Page, personnelGroup } from "../fixtures.js";
+
+import type { DatevBookingBatchOptions } from "../../src/output/datev-booking-batch-generator.js";
+
+const options: DatevBookingBatchOptions = {
+	consultantNumber: 29098,
+	clientNumber: 55003,
+	fiscalYearStart: "2025-01-01",
+};
+
+const generator = new DatevBookingBatchGenerator();
+
+describe("DatevBookingBatchGenerator.createBookings", () => {
+	it("books every regular statement of a group with its own period", () => {
+		const bookings = generator.createBookings(
+			[
+				personnelGroup([
+					logn17Page({ period: PayrollPeriod.of(2025, 9) }),
+					logn17Page(),
+					correctionPage("120,50", PayrollPeriod.of(2025, 8)),
+				]),
+			],
+			options,
+		);
+
+		expect([...new Set(bookings.map((b) => b.documentNumber))]).toEqual([
+			"LOHN-202509-12345",
+			"LOHN-202510-12345",
+			"LOHNKORR-202508-12345",
+		]);
+		expect(
+			bookings
+				.filter((b) => b.text.startsWith("Nettolohn"))
+				.map((b) => [b.date, b.amount.formatGerman()]),
+		).toEqual([
+			["2025-09-30", "2.345,67"],
+			["2025-10-31", "2.345,67"],
+		]);
+	});
+});
+
+describe("DatevBookingBatchGenerator.createBookings (periods)", () => {
+	it("skips statements without a payroll period", () => {
+		const groups = [
+			personnelGroup([logn17Page({ period: null })], { period: null }),
+			personnelGroup([logn17Page({ personnelNumber: "67890" })]),
+		];
+
+		const bookings = generator.createBookings(groups, options);
+
+		expect(new Set(bookings.map((b) => b.personnelNumber))).toEqual(
+			new Set(["67890"]),
+		);
+		expect(
+			generator
+				.findStatementsWithoutPeriod(groups)
+				.map((s) => s.totalsPage.personnelNumber),
+		).toEqual(["12345"]);
+	});
+
+	it("rejects statements outside of the fiscal year", () => {
+		expect(() =>
+			generator.createBookings([personnelGroup([logn17Page()])], {
+				...options,
+				fiscalYearStart: "2024-01-01",
+			}),
+		).toThrow(/outside of the fiscal year/);
+	});
+
+	it("books negative correction differences on the credit side", () => {
+		const [booking] = generator.createBookings(
+			[personnelGroup([correctionPage("-20,00", PayrollPeriod.of(2025, 9))])],
+			options,
+		);
+
+		expect(booking).toMatchObject({
+			debitCredit: "H",
+			account: "1755",
+			contraAccount: "1740",
+			date: "2025-10-31",
+			documentNumber: "LOHNKORR-202509-12345",
+		});
+		expect(booking?.amount.formatGerman()).toBe("20,00");
+	});
+});
+
+describe("DatevBookingBatchGenerator.generateBookingBatchCsv", () => {
+	const csv = generator
+		.generateBookingBatchCsv(
+			[personnelGroup([logn17Page({ employeeName: "Jörg Müller" })])],
+			{ ...options, creationDateTime: new Date("2025-10-27T08:00:00Z") },
+		)
+		.toString("latin1");
+	const [header, columns, ...rows] = csv.split("\r\n");
+
+	it("writes the EXTF header record", () => {
+		expect(header).toBe(
+			'"EXTF";700;21;"Buchungsstapel";13;20251027080000000;;"RE";"";"";' +
+				'29098;55003;20250101;4;20251031;20251031;"Lohn 10/2025";"";1;0;0;' +
+				'"EUR";;"";;;"03";;;"";""',
+		);
+		expect(columns).toMatch(/^"Umsatz \(ohne Soll\/Haben-Kz\)";/);
+	});
+
+	it("writes one Windows-1252 row per posting", () => {
+		expect(rows).toEqual([
+			expect.stringMatching(
+				/^3500,00;"S";"EUR";;;"";4120;1755;"";3110;"LOHN-202510-12345";"";;"Gehalt Oktober 2025 Jörg Müller"$/,
+			),
+			expect.stringMatching(/^412,50;"S";"EUR";;;"";1755;1741;/),
+			expect.stringMatching(/^33,00;"S";"EUR";;;"";1755;1741;/),
+			expect.stringMatching(/^285,25;"S";"EUR";;;"";1755;1742;/),
+			expect.stringMatching(/^325,50;"S";"EUR";;;"";1755;1742;/),
+			expect.stringMatching(/^45,50;"S";"EUR";;;"";1755;1742;/),
+			expect.stringMatching(/^52,58;"S";"EUR";;;"";1755;1742;/),
+			expect.stringMatching(/^2345,67;"S";"EUR";;;"";1755;1740;/),
+			"",
+		]);
+	});
+});
+
+describe("DatevBookingBatchGenerator.parseAccountConfig", () => {
+	it("parses the chart of accounts and account overrides", () => {
+		expect(
+			DatevBookingBatchGenerator.parseAccountConfig({
+				chartOfAccounts: "SKR04",
+				accounts: { netPay: 3720, salaries: "6020" },
+			}),
+		).toEqual({
+			chartOfAccounts: "SKR04",
+			accounts: { netPay: "3720", salaries: "6020" },
+		});
+	});
+
+	it.each<[string, unknown]>([
+		["arrays", []],
+		["unknown charts of accounts", { chartOfAccounts: "SKR49" }],
+		["unknown accounts", { accounts: { toString: "1740" } }],
+		["non-numeric accounts", { accounts: { netPay: true } }],
+	])("rejects %s", (_name, value) => {
+		expect(() => DatevBookingBatchGenerator.parseAccountConfig(value)).toThrow(
+			ValidationError,
+		);
+	});
+});
+
+describe("DatevBookingBatchGenerator.validateBookingBatchOptions", () => {
+	it("accepts valid options", () => {
+		expect(() =>
+			generator.validateBookingBatchOptions({
+				...options,
+				chartOfAccounts: "SKR04",
+			}),
+		).not.toThrow();
+	});
+
+	it.each<[string, Partial<DatevBookingBatchOptions>]>([
+		["consultant number", { consultantNumber: 1000 }],
+		["client number", { clientNumber: 100000 }],
+		["fiscal year start", { fiscalYearStart: "2025-02-30" }],
+		["account length", { accountLength: 9 }],
+		["accounts", { accounts: { netPay: "37200" } }],
+	])("rejects an invalid %s", (_field, fields) => {
+		expect(() =>
+			generator.validateBookingBatchOptions({ ...options, ...fields }),
+		).toThrow(ValidationError);
+	});
+});
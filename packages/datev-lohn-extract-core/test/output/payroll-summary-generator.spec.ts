@@ -0,0 +1,117 @@
+import { strFromU8, unzipSync } from "fflate";
+import { describe, expect, it } from "vitest";
+
+import { PayrollSummaryGenerator } from "../../src/output/payroll-summary-generator.js";
+import { PayrollPeriod } from "../../src/period.js";
+import { Redactor } from "../../src/redaction/redactor.js";
+import { correctionPage, logn17Page, personnelGroup } from "../fixtures.js";
+
+const generator = new PayrollSummaryGenerator();
+
+describe("PayrollSummaryGenerator.createSummary", () => {
+	it("sums up the regular statements and correction runs of a group", () => {
+		const { rows, totals } = generator.createSummary([
+			personnelGroup([
+				logn17Page({ period: PayrollPeriod.of(2025, 9) }),
+				logn17Page(),
+				correctionPage("120,50", PayrollPeriod.of(2025, 8)),
+			]),
+		]);
+
+		expect(rows).toHaveLength(1);
+		expect(rows[0]?.brutto?.formatGerman()).toBe("7.000,00");
+		expect(rows[0]?.netto?.formatGerman()).toBe("4.691,34");
+		expect(rows[0]?.nettoDifference?.formatGerman()).toBe("120,50");
+		expect(totals.netto.formatGerman()).toBe("4.691,34");
+	});
+
+	it("leaves brutto and netto empty for correction runs only", () => {
+		const { rows } = generator.createSummary([
+			personnelGroup([correctionPage("-20,00", PayrollPeriod.of(2025, 9))]),
+		]);
+
+		expect(rows[0]?.brutto).toBeNull();
+		expect(rows[0]?.netto).toBeNull();
+		expect(rows[0]?.nettoDifference?.formatGerman()).toBe("-20,00");
+		expect(rows[0]?.iban).toBe("DE89370400440532013000");
+	});
+});
+
+describe("PayrollSummaryGenerator.generateCsv", () => {
+	const groups = [
+		personnelGroup([logn17Page({ employeeName: 'Max "Maxi" Mustermann' })]),
+		personnelGroup([
+			correctionPage("120,50", PayrollPeriod.of(2025, 9), {
+				personnelNumber: "67890",
+			}),
+		]),
+	];
+
+	it("writes German amounts separated by semicolons", () => {
+		const [header, first, second, total] = generator
+			.generateCsv(groups)
+			.split("\n");
+
+		expect(header).toBe(
+			'"personnel_number";"employee_name";"period";"is_correction";"brutto";"netto";"netto_difference";"iban";"page_count";"form_types";"warnings"',
+		);
+		expect(first).toBe(
+			'"12345";"Max ""Maxi"" Mustermann";"2025-10";"false";"3.500,00";"2.345,67";"";"DE89370400440532013000";"1";"LOGN17";""',
+		);
+		expect(second).toContain('"67890";"Max Mustermann";"2025-10";"true"');
+		expect(total).toBe(
+			'"TOTAL";"";"";"";"3.500,00";"2.345,67";"120,50";"";"2";"";"0"',
+		);
+	});
+
+	it("writes international amounts separated by commas", () => {
+		const lines = generator
+			.generateCsv(groups, { numberFormat: "international" })
+			.split("\n");
+
+		expect(lines[3]).toBe(
+			'"TOTAL","","","","3500.00","2345.67","120.50","","2","","0"',
+		);
+	});
+
+	it("redacts the text cells", () => {
+		const redacting = new PayrollSummaryGenerator({
+			redactor: new Redactor({ rules: [{ kind: "iban" }] }),
+		});
+
+		expect(redacting.generateCsv(groups)).not.toContain(
+			"DE89370400440532013000",
+		);
+	});
+});
+
+describe("PayrollSummaryGenerator.generateXlsx", () => {
+	const xlsx = unzipSync(
+		generator.generateXlsx([
+			personnelGroup([logn17Page({ employeeName: "Jörg & <Co>" })]),
+		]),
+	);
+	const sheet = strFromU8(xlsx["xl/worksheets/sheet1.xml"]!);
+
+	it("writes a complete workbook package", () => {
+		expect(Object.keys(xlsx).sort()).toEqual([
+			"[Content_Types].xml",
+			"_rels/.rels",
+			"xl/_rels/workbook.xml.rels",
+			"xl/styles.xml",
+			"xl/workbook.xml",
+			"xl/worksheets/sheet1.xml",
+		]);
+		expect(sheet).toContain('state="frozen"');
+		expect(sheet).toContain('<autoFilter ref="A1:K2"/>');
+	});
+
+	it("writes escaped text and numeric amounts", () => {
+		expect(sheet).toContain(
+			'<c r="B2" s="0" t="inlineStr"><is><t xml:space="preserve">Jörg &amp; &lt;Co&gt;</t></is></c>',
+		);
+		expect(sheet).toContain('<c r="F2" s="1"><v>2345.67</v></c>');
+		expect(sheet).toContain('<c r="F3" s="3"><v>2345.67</v></c>');
+		expect(sheet).toContain("1 Mitarbeiter");
+	});
+});
@@ -0,0 +1,118 @@
+import { readFileSync } from "fs";
+import { describe, expect, it } from "vitest";
+import { validateXML } from "xmllint-wasm";
+
+import { ValidationError } from "../../src/errors.js";
+import { SepaTransfersGenerator } from "../../src/output/sepa-transfers-generator.js";
+import { PayrollPeriod } from "../../src/period.js";
+import { correctionPage, logn17Page, personnelGroup } from "../fixtures.js";
+
+import type { SepaPain001Options } from "../../src/output/sepa-transfers-generator.js";
+
+const PAIN_001_XSD = readFileSync(
+	new URL("../../data/pain.001.001.09.xsd", import.meta.url),
+	"utf-8",
+);
+
+const options: SepaPain001Options = {
+	debtorName: "Muster & Söhne GmbH",
+	debtorIban: "DE02120300000000202051",
+	requestedExecutionDate: "2025-10-28",
+	messageId: "LOHN-2025-10",
+	creationDateTime: new Date("2025-10-27T08:00:00Z"),
+};
+
+async function validatePain001(xml: string): Promise<string[]> {
+	const result = await validateXML({
+		xml: [{ fileName: "sepa-transfers.xml", contents: xml }],
+		schema: [{ fileName: "pain.001.001.09.xsd", contents: PAIN_001_XSD }],
+	});
+	return result.errors.map((error) => error.message);
+}
+
+const generator = new SepaTransfersGenerator();
+
+describe("SepaTransfersGenerator.generatePain001Xml", () => {
+	it("generates a file valid against the bundled pain.001.001.09 XSD", async () => {
+		const xml = generator.generatePain001Xml(
+			[
+				personnelGroup([
+					logn17Page({ employeeName: "Jörg <Test>" }),
+					correctionPage("120,50", PayrollPeriod.of(2025, 9)),
+				]),
+			],
+			options,
+		);
+
+		await expect(validatePain001(xml)).resolves.toEqual([]);
+		expect(xml).toContain("<NbOfTxs>2</NbOfTxs>");
+		expect(xml).toContain("<CtrlSum>2466.17</CtrlSum>");
+		expect(xml).toContain("<Nm>Jörg &lt;Test&gt;</Nm>");
+		expect(xml).toContain(
+			"<Ustrd>Korrektur Gehalt September 2025 (12345)</Ustrd>",
+		);
+	});
+
+	it("looks up the debtor BIC from the bundled BLZ table", async () => {
+		const xml = generator.generatePain001Xml([personnelGroup([logn17Page()])], {
+			...options,
+			debtorIban: "DE89370400440532013000",
+		});
+
+		await expect(validatePain001(xml)).resolves.toEqual([]);
+		expect(xml).toContain("<BICFI>COBADEFFXXX</BICFI>");
+	});
+
+	it("pays every regular statement of a group with its own period", () => {
+		const xml = generator.generatePain001Xml(
+			[
+				personnelGroup([
+					logn17Page({ period: PayrollPeriod.of(2025, 9) }),
+					logn17Page(),
+				]),
+			],
+			options,
+		);
+
+		expect(xml).toContain("<NbOfTxs>2</NbOfTxs>");
+		expect(xml).toContain("<CtrlSum>4691.34</CtrlSum>");
+		expect(xml).toContain("<Ustrd>Gehalt September 2025 (12345)</Ustrd>");
+		expect(xml).toContain("<Ustrd>Gehalt Oktober 2025 (12345)</Ustrd>");
+	});
+
+	it("skips transfers without a positive amount", () => {
+		const xml = generator.generatePain001Xml(
+			[
+				personnelGroup([
+					logn17Page(),
+					correctionPage("-20,00", PayrollPeriod.of(2025, 9)),
+				]),
+			],
+			options,
+		);
+
+		expect(xml).toContain("<NbOfTxs>1</NbOfTxs>");
+		expect(xml).not.toContain("Korrektur");
+	});
+
+	it("rejects an invalid debtor IBAN", () => {
+		expect(() =>
+			generator.generatePain001Xml([], {
+				...options,
+				debtorIban: "DE00370400440532013000",
+			}),
+		).toThrow(ValidationError);
+	});
+
+	it.each(["2025-02-31", "2025-13-01", "28.10.2025"])(
+		"rejects the execution date %s",
+		(requestedExecutionDate) => {
+			expect(() =>
+				generator.validatePain001Options({
+					...options,
+					requestedExecutionDate,
+				}),
+			).toThrow(/Invalid requested execution date/);
+		},
+	);
+});
@@ -0,0 +1,88 @@
+import { describe, expect, it } from "vitest";
+
+import { ValidationError } from "../src/errors.js";
+import { PayrollPeriod } from "../src/period.js";
+
+describe("PayrollPeriod.parse", () => {
+	it.each([
+		["2025-03", "2025-03"],
+		["2025", "2025"],
+		["03/2025", "2025-03"],
+		["3.2025", "2025-03"],
+		["März 2025", "2025-03"],
+		["Maerz 2025", "2025-03"],
+		["oktober 2025", "2025-10"],
+		["Abrechnungsmonat März 2025", "2025-03"],
+		["Abrechnungszeitraum: 10/2025", "2025-10"],
+		["Kalenderjahr 2025", "2025"],
+	])("parses %j", (value, iso) => {
+		expect(PayrollPeriod.parse(value).toISOString()).toBe(iso);
+	});
+
+	it.each(["", "2025-13", "13/2025", "Mär 2025", "March 2025", "25"])(
+		"rejects %j",
+		(value) => {
+			expect(() => PayrollPeriod.parse(value)).toThrow(ValidationError);
+			expect(PayrollPeriod.tryParse(value)).toBeNull();
+		},
+	);
+});
+
+describe("PayrollPeriod.find", () => {
+	it("prefers labelled periods", () => {
+		const text = "Datum 15.09.2025\nOktober 2025\nAbrechnungsmonat 11/2025";
+
+		expect(PayrollPeriod.find(text)).toEqual({
+			period: PayrollPeriod.of(2025, 11),
+			offset: text.indexOf("11/2025"),
+			text: "11/2025",
+			snippet: "Abrechnungsmonat 11/2025",
+		});
+	});
+
+	it("finds month names before numeric periods", () => {
+		expect(
+			PayrollPeriod.find("Stand 03/2025, Abrechnung für Oktober 2025")?.text,
+		).toBe("Oktober 2025");
+	});
+
+	it("does not read full dates as periods", () => {
+		expect(PayrollPeriod.find("Eintritt 01.10.2025")).toBeNull();
+	});
+
+	it("finds annual periods", () => {
+		const match = PayrollPeriod.find("Lohnjournal Kalenderjahr 2025");
+
+		expect(match?.period.isAnnual()).toBe(true);
+		expect(match?.snippet).toBe("Kalenderjahr 2025");
+	});
+});
+
+describe("PayrollPeriod.compare", () => {
+	it("orders periods chronologically", () => {
+		const periods = ["2025-10", "2024-12", "2025", "2025-02"].map((value) =>
+			PayrollPeriod.parse(value),
+		);
+
+		expect(
+			periods.sort((a, b) => a.compare(b)).map((p) => p.toISOString()),
+		).toEqual(["2024-12", "2025", "2025-02", "2025-10"]);
+	});
+});
+
+describe("PayrollPeriod.of", () => {
+	it("formats German and English labels", () => {
+		const period = PayrollPeriod.of(2025, 3);
+
+		expect(period.formatGerman()).toBe("März 2025");
+		expect(period.formatEnglish()).toBe("March 2025");
+		expect(PayrollPeriod.fromJSON(JSON.parse(JSON.stringify(period)))).toEqual(
+			period,
+		);
+	});
+
+	it("rejects out of range values", () => {
+		expect(() => PayrollPeriod.of(2025, 13)).toThrow(ValidationError);
+		expect(() => PayrollPeriod.of(25, 1)).toThrow(ValidationError);
+	});
+});
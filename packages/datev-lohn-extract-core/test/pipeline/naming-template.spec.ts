@@ -0,0 +1,98 @@
+import { describe, expect, it } from "vitest";
+
+import { ValidationError } from "../../src/errors.js";
+import { PayrollPeriod } from "../../src/period.js";
+import {
+	COMPANY_NAMING_PLACEHOLDERS,
+	NamingTemplate,
+	PERSONNEL_NAMING_PLACEHOLDERS,
+} from "../../src/pipeline/naming-template.js";
+
+const values = {
+	personnelNumber: "12345",
+	employeeName: "Jörg Müller",
+	correction: null,
+	pageCount: "2",
+};
+
+function personnelTemplate(template: string): NamingTemplate {
+	return new NamingTemplate(template, PERSONNEL_NAMING_PLACEHOLDERS);
+}
+
+describe("NamingTemplate.render", () => {
+	it("renders the default templates with numeric periods", () => {
+		const period = PayrollPeriod.of(2025, 10);
+
+		expect(
+			personnelTemplate(NamingTemplate.DEFAULT_PERSONNEL).render(
+				values,
+				period,
+			),
+		).toBe("PERSONNEL-2025-10-12345.pdf");
+		expect(
+			personnelTemplate(NamingTemplate.DEFAULT_PERSONNEL).render({
+				...values,
+				correction: "KORREKTUR",
+			}),
+		).toBe("PERSONNEL-12345-KORREKTUR.pdf");
+		expect(
+			new NamingTemplate(
+				NamingTemplate.DEFAULT_COMPANY,
+				COMPANY_NAMING_PLACEHOLDERS,
+			).render({}, PayrollPeriod.of(2025)),
+		).toBe("COMPANY-2025.pdf");
+	});
+
+	it("applies date formats, filters and subdirectories", () => {
+		const template = personnelTemplate(
+			"{period:yyyy-MM}/{month:MMMM}/{personnelNumber}_{employeeName|slug}.pdf",
+		);
+
+		expect(template.render(values, PayrollPeriod.of(2025, 3))).toBe(
+			"2025-03/März/12345_joerg-mueller.pdf",
+		);
+	});
+
+	it("omits optional sections without value", () => {
+		const template = personnelTemplate("{personnelNumber}[-{month:MM}].pdf");
+
+		expect(template.render(values, PayrollPeriod.of(2025))).toBe("12345.pdf");
+		expect(template.render(values, PayrollPeriod.of(2025, 1))).toBe(
+			"12345-01.pdf",
+		);
+	});
+
+	it("keeps placeholder values inside their path segment", () => {
+		const template = personnelTemplate("{employeeName}.pdf");
+
+		expect(
+			template.render({ ...values, employeeName: "../../etc/passwd" }),
+		).not.toContain("..");
+		expect(template.render({ ...values, employeeName: "a/b" })).not.toContain(
+			"/",
+		);
+	});
+});
+
+describe("NamingTemplate.constructor", () => {
+	it.each([
+		"",
+		"{unknown}.pdf",
+		"{personnelNumber:yyyy}.pdf",
+		"{period:abc}.pdf",
+		"{employeeName|toString}.pdf",
+		"{employeeName|reverse}.pdf",
+	])("rejects the template %j", (template) => {
+		expect(() => personnelTemplate(template)).toThrow(ValidationError);
+	});
+
+	it("rejects personnel placeholders in company templates", () => {
+		expect(
+			() =>
+				new NamingTemplate(
+					"{personnelNumber}.pdf",
+					COMPANY_NAMING_PLACEHOLDERS,
+				),
+		).toThrow(ValidationError);
+	});
+});
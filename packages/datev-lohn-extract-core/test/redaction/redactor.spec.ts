@@ -0,0 +1,69 @@
+import { describe, expect, it } from "vitest";
+
+import { ValidationError } from "../../src/errors.js";
+import { Redactor } from "../../src/redaction/redactor.js";
+import { logn17Page } from "../fixtures.js";
+
+describe("Redactor.parseRule", () => {
+	it("parses field kinds and patterns", () => {
+		expect(Redactor.parseRule("iban")).toEqual({ kind: "iban" });
+		expect(Redactor.parseRule("/Max\\s\\w+/i")).toEqual({
+			pattern: /Max\s\w+/i,
+		});
+	});
+
+	it.each(["toString", "constructor", "/[/", "name"])(
+		"rejects the rule %s",
+		(value) => {
+			expect(() => Redactor.parseRule(value)).toThrow(ValidationError);
+		},
+	);
+});
+
+describe("Redactor.redactText", () => {
+	it("replaces matched characters except whitespace", () => {
+		const redactor = new Redactor({ rules: [{ kind: "iban" }] });
+
+		expect(redactor.redactText("IBAN DE89 3704 0044 0532 0130 00 Bank")).toBe(
+			"IBAN ████ ████ ████ ████ ████ ██ Bank",
+		);
+	});
+
+	it("merges overlapping matches of different rules", () => {
+		const redactor = new Redactor({
+			rules: [{ pattern: /Max Muster/ }, { pattern: /Mustermann/ }],
+		});
+
+		expect(redactor.findMatches("Herr Max Mustermann")).toEqual([
+			{ offset: 5, length: 14 },
+		]);
+	});
+
+	it("requires a rule", () => {
+		expect(() => new Redactor({ rules: [] })).toThrow(ValidationError);
+	});
+});
+
+describe("Redactor.redactPage", () => {
+	it("redacts raw text and provenance snippets but keeps typed fields", () => {
+		const redactor = new Redactor({ rules: [{ kind: "taxId" }] });
+		const page = redactor.redactPage(
+			logn17Page({
+				rawText: "Steuer-ID 12 345 678 901",
+				provenance: {
+					"employee.taxId": {
+						patternId: "LOGN17.employee.taxId",
+						snippet: "12 345 678 901",
+						offset: 10,
+						boundingBox: null,
+						confidence: 1,
+					},
+				},
+			}),
+		);
+
+		expect(page.rawText).toBe("Steuer-ID ██ ███ ███ ███");
+		expect(page.provenance["employee.taxId"]?.snippet).toBe("██ ███ ███ ███");
+		expect(page.iban).toBe("DE89370400440532013000");
+	});
+});
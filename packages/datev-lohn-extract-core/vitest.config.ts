@@ -3,7 +3,7 @@ import { defineConfig } from "vitest/config";
 export default defineConfig({
 	test: {
 		name: "@internal/datev-lohn-extract-core#unit",
-		include: ["src/**/*.spec.ts"],
+		include: ["{src,test}/**/*.spec.ts"],
 		coverage: {
 			provider: "v8",
 			include: ["src/**/*.ts"],
@@ -0,0 +1,100 @@
+#!/bin/bash
+
+set -euo pipefail
+
+# Colors for output
+RED='\033[0;31m'
+GREEN='\033[0;32m'
+BLUE='\033[0;34m'
+NC='\033[0m' # No Color
+
+# Function to print colored output
+print_info() {
+    echo -e "${BLUE}[INFO]${NC} $1"
+}
+
+print_success() {
+    echo -e "${GREEN}[SUCCESS]${NC} $1"
+}
+
+print_error() {
+    echo -e "${RED}[ERROR]${NC} $1"
+}
+
+# Function to show usage
+show_usage() {
+    echo "Usage: $0"
+    echo ""
+    echo "Generates the BLZ table bundled with the core package from open npm datasets:"
+    echo "  iban-to-bic (MIT)        BLZ and BIC, derived from the Bundesbank BLZ table"
+    echo "  fints-institute-db (CC0) bank name and city"
+    echo "The file uses the record layout of the Bundesbank BLZ table; postal codes"
+    echo "are left empty. Use tooling/update-blz-data.sh to bundle the official file instead."
+}
+
+if [ $# -gt 0 ]; then
+    show_usage
+    exit 1
+fi
+
+# Check if we're in the repository root
+if [ ! -f "package.json" ] || [ ! -f ".tool-versions" ] || [ ! -d "packages" ]; then
+    print_error "This script must be run from the repository root directory"
+    exit 1
+fi
+
+TARGET_DIR="packages/datev-lohn-extract-core/data"
+TARGET_FILE="$TARGET_DIR/blz.txt"
+TMP_DIR=$(mktemp -d)
+trap 'rm -rf "$TMP_DIR"' EXIT
+
+for PACKAGE in iban-to-bic fints-institute-db; do
+    print_info "Downloading $PACKAGE from the npm registry"
+    mkdir -p "$TMP_DIR/$PACKAGE"
+    TARBALL=$(cd "$TMP_DIR" && npm pack --silent "$PACKAGE")
+    tar -xzf "$TMP_DIR/$TARBALL" -C "$TMP_DIR/$PACKAGE" --strip-components=1
+done
+
+mkdir -p "$TARGET_DIR"
+
+# Bundesbank record layout (168 characters): BLZ, Merkmal, name, postal code,
+# city, short name, PAN, BIC, check digit method, record number, change flag,
+# deletion flag, successor BLZ
+node --input-type=module - "$TMP_DIR" "$TARGET_FILE" <<'EOF'
+import { readFileSync, writeFileSync } from "fs";
+
+const [dir, target] = process.argv.slice(2);
+const bics = JSON.parse(readFileSync(`${dir}/iban-to-bic/datasets/de.json`, "utf-8"));
+const institutes = new Map(
+    JSON.parse(readFileSync(`${dir}/fints-institute-db/fints-institutes.json`, "utf-8"))
+        .map((institute) => [institute.blz, institute]),
+);
+
+const pad = (value, length) =>
+    (value ?? "").replace(/\s+/g, " ").trim().slice(0, length).padEnd(length);
+const lines = Object.keys(bics).sort().map((blz, index) => {
+    const institute = institutes.get(blz);
+    return [
+        blz,
+        "1",
+        pad(institute?.name, 58),
+        pad("", 5),
+        pad(institute?.location, 35),
+        pad(institute?.name, 27),
+        pad("", 5),
+        pad(bics[blz], 11),
+        pad("", 2),
+        String(index + 1).padStart(6, "0"),
+        "U",
+        "0",
+        "00000000",
+    ].join("");
+});
+
+writeFileSync(target, lines.join("\r\n") + "\r\n", "latin1");
+EOF
+
+chmod 644 "$TARGET_FILE"
+
+ENTRY_COUNT=$(grep -c '^[0-9]\{8\}1' "$TARGET_FILE" || true)
+print_success "BLZ table generated: $TARGET_FILE ($ENTRY_COUNT banks)"
@@ -0,0 +1,81 @@
+#!/bin/bash
+
+set -euo pipefail
+
+# Colors for output
+RED='\033[0;31m'
+GREEN='\033[0;32m'
+BLUE='\033[0;34m'
+NC='\033[0m' # No Color
+
+# Function to print colored output
+print_info() {
+    echo -e "${BLUE}[INFO]${NC} $1"
+}
+
+print_success() {
+    echo -e "${GREEN}[SUCCESS]${NC} $1"
+}
+
+print_error() {
+    echo -e "${RED}[ERROR]${NC} $1"
+}
+
+# Function to show usage
+show_usage() {
+    echo "Usage: $0 <url-or-file>"
+    echo ""
+    echo "Updates the Bundesbank BLZ table bundled with the core package."
+    echo "Download the current 'Bankleitzahlendatei' in text format (ungepackt) from:"
+    echo "  https://www.bundesbank.de/de/aufgaben/unbarer-zahlungsverkehr/serviceangebot/bankleitzahlen"
+    echo ""
+    echo "Example: $0 ./blz-aktuell-txt-data.txt"
+}
+
+# Check if source is provided
+if [ $# -eq 0 ]; then
+    print_error "No URL or file provided"
+    show_usage
+    exit 1
+fi
+
+SOURCE="$1"
+
+# Check if we're in the repository root
+if [ ! -f "package.json" ] || [ ! -f ".tool-versions" ] || [ ! -d "packages" ]; then
+    print_error "This script must be run from the repository root directory"
+    exit 1
+fi
+
+TARGET_DIR="packages/datev-lohn-extract-core/data"
+TARGET_FILE="$TARGET_DIR/blz.txt"
+TMP_FILE=$(mktemp)
+trap 'rm -f "$TMP_FILE"' EXIT
+
+if [[ "$SOURCE" =~ ^https?:// ]]; then
+    print_info "Downloading BLZ table from: $SOURCE"
+    if ! curl -fsSL "$SOURCE" -o "$TMP_FILE"; then
+        print_error "Download failed"
+        exit 1
+    fi
+else
+    if [ ! -f "$SOURCE" ]; then
+        print_error "File not found: $SOURCE"
+        exit 1
+    fi
+    cp "$SOURCE" "$TMP_FILE"
+fi
+
+# Validate the fixed-width format (168 characters per record, 8-digit BLZ)
+if ! head -n 1 "$TMP_FILE" | grep -Eq '^[0-9]{8}[12]'; then
+    print_error "Unexpected file format. Expected the Bundesbank BLZ text file."
+    exit 1
+fi
+
+mkdir -p "$TARGET_DIR"
+mv "$TMP_FILE" "$TARGET_FILE"
+chmod 644 "$TARGET_FILE"
+trap - EXIT
+
+ENTRY_COUNT=$(grep -c '^[0-9]\{8\}1' "$TARGET_FILE" || true)
+print_success "BLZ table updated: $TARGET_FILE ($ENTRY_COUNT banks)"
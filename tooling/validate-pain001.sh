@@ -0,0 +1,88 @@
+#!/bin/bash
+
+set -euo pipefail
+
+# Colors for output
+RED='\033[0;31m'
+GREEN='\033[0;32m'
+BLUE='\033[0;34m'
+NC='\033[0m' # No Color
+
+# Function to print colored output
+print_info() {
+    echo -e "${BLUE}[INFO]${NC} $1"
+}
+
+print_success() {
+    echo -e "${GREEN}[SUCCESS]${NC} $1"
+}
+
+print_error() {
+    echo -e "${RED}[ERROR]${NC} $1"
+}
+
+BUNDLED_SCHEMA="packages/datev-lohn-extract-core/data/pain.001.001.09.xsd"
+
+# Function to show usage
+show_usage() {
+    echo "Usage: $0 <sepa-transfers.xml> [xsd-url-or-file]"
+    echo ""
+    echo "Validates a generated pain.001.001.09 file against an XML schema."
+    echo "Defaults to the schema bundled with the core package ($BUNDLED_SCHEMA)."
+    echo "The official schema is published in the ISO 20022 message archive (pain.001.001.09.xsd):"
+    echo "  https://www.iso20022.org/iso-20022-message-definitions"
+    echo "The German banking industry (DK) variant is available from:"
+    echo "  https://www.ebics.de/de/datenformate"
+    echo ""
+    echo "Example: $0 ./output/sepa-transfers.xml"
+}
+
+# Check if the file is provided
+if [ $# -lt 1 ]; then
+    print_error "No XML file provided"
+    show_usage
+    exit 1
+fi
+
+XML_FILE="$1"
+SCHEMA="${2:-$(dirname "$0")/../$BUNDLED_SCHEMA}"
+
+if ! command -v xmllint >/dev/null 2>&1; then
+    print_error "xmllint is not installed (package libxml2-utils)"
+    exit 1
+fi
+
+if [ ! -f "$XML_FILE" ]; then
+    print_error "File not found: $XML_FILE"
+    exit 1
+fi
+
+SCHEMA_FILE=$(mktemp)
+trap 'rm -f "$SCHEMA_FILE"' EXIT
+
+if [[ "$SCHEMA" =~ ^https?:// ]]; then
+    print_info "Downloading schema from: $SCHEMA"
+    if ! curl -fsSL "$SCHEMA" -o "$SCHEMA_FILE"; then
+        print_error "Download failed"
+        exit 1
+    fi
+else
+    if [ ! -f "$SCHEMA" ]; then
+        print_error "Schema not found: $SCHEMA"
+        exit 1
+    fi
+    cp "$SCHEMA" "$SCHEMA_FILE"
+fi
+
+# The generated file must match the namespace of the schema
+if ! grep -q 'urn:iso:std:iso:20022:tech:xsd:pain.001.001.09' "$SCHEMA_FILE"; then
+    print_error "Unexpected schema. Expected the pain.001.001.09 XSD."
+    exit 1
+fi
+
+if ! xmllint --noout --schema "$SCHEMA_FILE" "$XML_FILE"; then
+    print_error "Schema validation failed: $XML_FILE"
+    exit 1
+fi
+
+print_success "Valid pain.001.001.09 file: $XML_FILE"
@@ -2,6 +2,7 @@ import { defineConfig } from "vitest/config";
 
 export default defineConfig({
   test: {
+    projects: ["{apps,packages}/*/vitest.config.ts"],
     coverage: {
       provider: "v8",
       all: true,